@@ -40,6 +40,10 @@ module.exports = {
     "import/extensions": ["error", "ignorePackages", { js: "never", mjs: "never", jsx: "never", ts: "never", tsx: "never" }],
     "@typescript-eslint/no-use-before-define": "off",
     "no-undef-init": "off", // To prevent "Variable is used before being assigned" TS errors.
+    "no-shadow": "off", // Reports false positives for TypeScript types. @typescript-eslint has same rule.
+    "@typescript-eslint/no-shadow": "error",
+    "@typescript-eslint/ban-types": ["error", { extendDefaults: true, types: { object: false } }], // `object` is used for non-primitive data.
+    "@typescript-eslint/explicit-module-boundary-types": ["warn", { allowArgumentsExplicitlyTypedAsAny: true }], // `any` is used for arbitrary data.
   },
   overrides: [
     {
@@ -0,0 +1,240 @@
+/** @ignore */
+const stringMap = { type: "object", additionalProperties: { type: "string" } };
+
+/** @ignore */
+const stringArray = { type: "array", items: { type: "string" } };
+
+/** @ignore */
+const person = {
+  oneOf: [
+    { type: "string" },
+    { type: "object", properties: { name: { type: "string" }, email: { type: "string" }, url: { type: "string" } }, required: ["name"] },
+  ],
+};
+
+/**
+ * Schema of the `package.json` file. Only types of the well known fields are validated, because custom fields are allowed.
+ *
+ * @ignore
+ */
+const packageJson = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  type: "object",
+  properties: {
+    name: { type: "string", maxLength: 214, pattern: "^(?:@[a-z0-9-*~][a-z0-9-*._~]*/)?[a-z0-9-~][a-z0-9-._~]*$" },
+    version: { type: "string" },
+    description: { type: "string" },
+    keywords: stringArray,
+    homepage: { type: "string" },
+    bugs: { oneOf: [{ type: "string" }, { type: "object", properties: { url: { type: "string" }, email: { type: "string" } } }] },
+    license: { type: "string" },
+    author: person,
+    contributors: { type: "array", items: person },
+    maintainers: { type: "array", items: person },
+    funding: { oneOf: [{ type: "string" }, { type: "object" }, { type: "array" }] },
+    files: stringArray,
+    main: { type: "string" },
+    module: { type: "string" },
+    browser: { oneOf: [{ type: "string" }, { type: "object" }] },
+    types: { type: "string" },
+    typings: { type: "string" },
+    type: { enum: ["commonjs", "module"] },
+    bin: { oneOf: [{ type: "string" }, stringMap] },
+    man: { oneOf: [{ type: "string" }, stringArray] },
+    directories: stringMap,
+    repository: {
+      oneOf: [{ type: "string" }, { type: "object", properties: { type: { type: "string" }, url: { type: "string" } }, required: ["url"] }],
+    },
+    scripts: stringMap,
+    config: { type: "object" },
+    dependencies: stringMap,
+    devDependencies: stringMap,
+    peerDependencies: stringMap,
+    optionalDependencies: stringMap,
+    peerDependenciesMeta: { type: "object", additionalProperties: { type: "object", properties: { optional: { type: "boolean" } } } },
+    bundledDependencies: { oneOf: [{ type: "boolean" }, stringArray] },
+    bundleDependencies: { oneOf: [{ type: "boolean" }, stringArray] },
+    engines: stringMap,
+    os: stringArray,
+    cpu: stringArray,
+    private: { type: "boolean" },
+    publishConfig: { type: "object" },
+    workspaces: { oneOf: [stringArray, { type: "object", properties: { packages: stringArray, nohoist: stringArray } }] },
+    sideEffects: { oneOf: [{ type: "boolean" }, stringArray] },
+  },
+};
+
+/** @ignore */
+const booleanCompilerOptions = [
+  "allowArbitraryExtensions",
+  "allowImportingTsExtensions",
+  "allowJs",
+  "allowSyntheticDefaultImports",
+  "allowUmdGlobalAccess",
+  "allowUnreachableCode",
+  "allowUnusedLabels",
+  "alwaysStrict",
+  "assumeChangesOnlyAffectDirectDependencies",
+  "checkJs",
+  "composite",
+  "declaration",
+  "declarationMap",
+  "diagnostics",
+  "disableReferencedProjectLoad",
+  "disableSizeLimit",
+  "disableSolutionSearching",
+  "disableSourceOfProjectReferenceRedirect",
+  "downlevelIteration",
+  "emitBOM",
+  "emitDeclarationOnly",
+  "emitDecoratorMetadata",
+  "erasableSyntaxOnly",
+  "esModuleInterop",
+  "exactOptionalPropertyTypes",
+  "experimentalDecorators",
+  "explainFiles",
+  "extendedDiagnostics",
+  "forceConsistentCasingInFileNames",
+  "importHelpers",
+  "incremental",
+  "inlineSourceMap",
+  "inlineSources",
+  "isolatedDeclarations",
+  "isolatedModules",
+  "keyofStringsOnly",
+  "libReplacement",
+  "listEmittedFiles",
+  "listFiles",
+  "noCheck",
+  "noEmit",
+  "noEmitHelpers",
+  "noEmitOnError",
+  "noErrorTruncation",
+  "noFallthroughCasesInSwitch",
+  "noImplicitAny",
+  "noImplicitOverride",
+  "noImplicitReturns",
+  "noImplicitThis",
+  "noImplicitUseStrict",
+  "noLib",
+  "noPropertyAccessFromIndexSignature",
+  "noResolve",
+  "noStrictGenericChecks",
+  "noUncheckedIndexedAccess",
+  "noUncheckedSideEffectImports",
+  "noUnusedLocals",
+  "noUnusedParameters",
+  "preserveConstEnums",
+  "preserveSymlinks",
+  "preserveValueImports",
+  "preserveWatchOutput",
+  "pretty",
+  "removeComments",
+  "resolveJsonModule",
+  "resolvePackageJsonExports",
+  "resolvePackageJsonImports",
+  "rewriteRelativeImportExtensions",
+  "skipDefaultLibCheck",
+  "skipLibCheck",
+  "sourceMap",
+  "strict",
+  "strictBindCallApply",
+  "strictBuiltinIteratorReturn",
+  "strictFunctionTypes",
+  "strictNullChecks",
+  "strictPropertyInitialization",
+  "stripInternal",
+  "suppressExcessPropertyErrors",
+  "suppressImplicitAnyIndexErrors",
+  "traceResolution",
+  "useDefineForClassFields",
+  "useUnknownInCatchVariables",
+  "verbatimModuleSyntax",
+];
+
+/** @ignore */
+const stringCompilerOptions = [
+  "baseUrl",
+  "charset",
+  "declarationDir",
+  "generateCpuProfile",
+  "generateTrace",
+  "ignoreDeprecations",
+  "importsNotUsedAsValues",
+  "jsx",
+  "jsxFactory",
+  "jsxFragmentFactory",
+  "jsxImportSource",
+  "mapRoot",
+  "module",
+  "moduleDetection",
+  "moduleResolution",
+  "newLine",
+  "out",
+  "outDir",
+  "outFile",
+  "reactNamespace",
+  "rootDir",
+  "sourceRoot",
+  "target",
+  "tsBuildInfoFile",
+];
+
+/** @ignore */
+const arrayCompilerOptions = ["customConditions", "lib", "moduleSuffixes", "plugins", "rootDirs", "typeRoots", "types"];
+
+/** @ignore */
+const fromEntries = (keys: string[], schema: object): Record<string, object> =>
+  keys.reduce((result, key) => ({ ...result, [key]: schema }), {} as Record<string, object>);
+
+/**
+ * Schema of the `tsconfig.json` file. Types of the known compiler options are checked. Unknown compiler options (e.g. options added
+ * by newer TypeScript versions) and unknown root keys (e.g. `ts-node` configuration) are allowed.
+ *
+ * @ignore
+ */
+const tsconfigJson = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  type: "object",
+  properties: {
+    compilerOptions: {
+      type: "object",
+      properties: {
+        ...fromEntries(booleanCompilerOptions, { type: ["boolean", "null"] }),
+        ...fromEntries(stringCompilerOptions, { type: ["string", "null"] }),
+        ...fromEntries(arrayCompilerOptions, { type: ["array", "null"] }),
+        maxNodeModuleJsDepth: { type: ["number", "null"] },
+        paths: { type: ["object", "null"], additionalProperties: stringArray },
+      },
+    },
+    compileOnSave: { type: "boolean" },
+    extends: { oneOf: [{ type: "string" }, stringArray] },
+    files: stringArray,
+    include: stringArray,
+    exclude: stringArray,
+    references: { type: "array", items: { type: "object", properties: { path: { type: "string" } }, required: ["path"] } },
+    typeAcquisition: { type: "object" },
+    watchOptions: { type: "object" },
+    buildOptions: { type: "object" },
+  },
+};
+
+/**
+ * Built-in schemas of the well known files. Keys are file names.
+ *
+ * @ignore
+ */
+export const builtinSchemas: Record<string, object> = {
+  "package.json": packageJson,
+  "tsconfig.json": tsconfigJson,
+};
+
+/**
+ * Built-in schemas of the well known `$schema` URLs. Keys are URLs without protocol and `.json` extension.
+ *
+ * @ignore
+ */
+export const builtinSchemaUrls: Record<string, object> = {
+  "json.schemastore.org/package": packageJson,
+  "json.schemastore.org/tsconfig": tsconfigJson,
+};
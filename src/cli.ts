@@ -0,0 +1,240 @@
+import yaml from "js-yaml";
+import Manager from "./manager";
+import DataFile from "./data-file";
+import { Logger, DataPath, WritableFileFormat } from "./types";
+import { noLogger } from "./helper";
+import { isWritableFormat } from "./format";
+
+/** @ignore */
+interface Output {
+  write: (text: string) => any;
+}
+
+/** @ignore */
+interface CliOptions {
+  root?: string;
+  rootDataPath?: string;
+  cosmiconfig?: boolean;
+  dryRun?: boolean;
+  check?: boolean;
+  string?: boolean;
+  defaultFormat?: WritableFileFormat;
+  start?: string;
+  end?: string;
+  verbose?: boolean;
+  help?: boolean;
+}
+
+/** Exit codes of the command line interface. */
+const EXIT = { success: 0, failure: 1, error: 2 };
+
+/** Options which require a value. */
+const VALUE_OPTIONS = ["root", "rootDataPath", "defaultFormat", "start", "end"];
+
+/** Boolean options. */
+const FLAG_OPTIONS = ["cosmiconfig", "dryRun", "check", "string", "verbose", "help"];
+
+/** Number of required and optional positional arguments (including file) of the commands. */
+const COMMANDS: Record<string, { required: number; optional: number }> = {
+  get: { required: 1, optional: 1 },
+  has: { required: 2, optional: 0 },
+  set: { required: 3, optional: 0 },
+  delete: { required: 2, optional: 0 },
+  merge: { required: 2, optional: 1 },
+  "sort-keys": { required: 1, optional: 1 },
+  apply: { required: 1, optional: 0 },
+};
+
+const USAGE = `Usage: edit-config <command> <file> [path] [value] [options]
+
+Commands:
+  get <file> [path]            Prints the value at path. Strings are printed as is, other values as JSON.
+  has <file> <path>            Exits with 0 if path exists, 1 otherwise.
+  set <file> <path> <value>    Sets the value at path.
+  delete <file> <path>         Deletes the value at path.
+  merge <file> [path] <value>  Merges the object value into the value at path or into the root.
+  sort-keys <file> [path]      Sorts keys of the object at path or the root.
+  apply <recipe>               Applies the operations of a JSON or YAML recipe file.
+
+Paths are dot separated ("scripts.build"). Keys containing dots are quoted in brackets ('exports["./lib"].import')
+or paths are given as JSON arrays ('["files", 0]').
+Dot separated paths may contain wildcards and filters to target many values ("overrides[files=*.ts].rules").
+Values are parsed as JSON or YAML. Values which cannot be parsed are used as strings.
+
+Options:
+  --root <dir>                 Root directory for relative file paths. (Default: current directory)
+  --root-data-path <path>      Edit only the data at given path of the file.
+  --cosmiconfig                Find the file using cosmiconfig. <file> is the module name.
+  --default-format <format>    Format of new or extensionless files: json, yaml, toml, ini, env or properties.
+  --string                     Do not parse the value, use it as a string.
+  --start <keys>               Comma separated keys to put at the beginning for sort-keys.
+  --end <keys>                 Comma separated keys to put at the end for sort-keys.
+  --dry-run                    Print the diff instead of writing the file.
+  --check                      Same as --dry-run, but exits with 1 if the file would be changed.
+  --verbose                    Log operations to stderr.
+  --help                       Show this help.
+
+Exit codes: 0 success, 1 path not found or file would be changed with --check, 2 error.
+`;
+
+/**
+ * Converts `--kebab-case` option name to camel case.
+ *
+ * @ignore
+ */
+function getOptionName(arg: string): string {
+  return arg.replace(/^--/, "").replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
+}
+
+/**
+ * Parses command line arguments.
+ *
+ * @ignore
+ * @param args are the command line arguments without node and script path.
+ * @returns positional arguments and options.
+ * @throws if an option is unknown or its value is missing.
+ */
+function parseArgs(args: string[]): { positionals: string[]; options: CliOptions } {
+  const positionals: string[] = [];
+  const options: Record<string, any> = {};
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    const [name, ...inlineValue] = getOptionName(arg).split("=");
+    if (arg === "--") {
+      positionals.push(...args.slice(index + 1));
+      break;
+    }
+
+    if (arg === "-h") options.help = true;
+    else if (!arg.startsWith("--")) positionals.push(arg);
+    else if (FLAG_OPTIONS.includes(name)) options[name] = true;
+    else if (!VALUE_OPTIONS.includes(name)) throw new Error(`Unknown option: ${arg}`);
+    else if (inlineValue.length > 0) options[name] = inlineValue.join("=");
+    else if (index + 1 < args.length) {
+      index += 1;
+      options[name] = args[index];
+    } else throw new Error(`Missing value for option: ${arg}`);
+  }
+  return { positionals, options };
+}
+
+/**
+ * Parses data path given in command line. JSON arrays or quoted keys in brackets are used for keys containing dots.
+ *
+ * @ignore
+ */
+function parsePath(path?: string): DataPath {
+  if (path === undefined || path === "") return [];
+  if (!path.startsWith("[")) return path;
+  try {
+    return JSON.parse(path);
+  } catch (error) {
+    return path;
+  }
+}
+
+/**
+ * Parses value given in command line as JSON or YAML. If value cannot be parsed, returns it as a string.
+ *
+ * @ignore
+ */
+function parseValue(value: string, asString?: boolean): any {
+  if (asString) return value;
+  try {
+    return yaml.safeLoad(value, { schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    return value;
+  }
+}
+
+/**
+ * Returns a logger which writes to given output.
+ *
+ * @ignore
+ */
+function getLogger(output: Output): Logger {
+  return { log: (level: string, message: string) => output.write(`${level}: ${message}\n`) };
+}
+
+/**
+ * Runs the operation of the command on the data file.
+ *
+ * @ignore
+ * @returns exit code, or `undefined` if data file should be saved.
+ */
+function runCommand(command: string, dataFile: DataFile, args: string[], options: CliOptions, stdout: Output): number | undefined {
+  const valueArg = command === "merge" ? args[args.length - 1] : args[1];
+  const path = parsePath(command === "merge" && args.length === 1 ? undefined : args[0]);
+  const hasPath = !(Array.isArray(path) && path.length === 0);
+  const list = (keys?: string): string[] | undefined => keys?.split(",").map((key) => key.trim());
+
+  if (command === "has") return dataFile.has(path) ? EXIT.success : EXIT.failure;
+  if (command === "get") {
+    if (hasPath && !dataFile.has(path)) return EXIT.failure;
+    const value = hasPath ? dataFile.get(path) : dataFile.data;
+    stdout.write(`${typeof value === "string" ? value : JSON.stringify(value, null, 2)}\n`);
+    return EXIT.success;
+  }
+
+  if (command === "set") dataFile.set(path, parseValue(valueArg, options.string));
+  else if (command === "delete") dataFile.delete(path);
+  else if (command === "merge") dataFile.merge(path, parseValue(valueArg, options.string));
+  else if (command === "sort-keys") dataFile.sortKeys(path, { start: list(options.start), end: list(options.end) });
+  return undefined;
+}
+
+/**
+ * Runs `edit-config` command line interface.
+ *
+ * @ignore
+ * @param args are the command line arguments without node and script path.
+ * @param stdout is the output to write results.
+ * @param stderr is the output to write errors and logs.
+ * @returns exit code.
+ */
+export default async function cli(
+  args: string[],
+  { stdout = process.stdout, stderr = process.stderr }: { stdout?: Output; stderr?: Output } = {}
+): Promise<number> {
+  try {
+    const { positionals, options } = parseArgs(args);
+    const [command, file, ...rest] = positionals;
+    if (options.help || command === undefined) {
+      (options.help ? stdout : stderr).write(USAGE);
+      return options.help ? EXIT.success : EXIT.error;
+    }
+
+    const spec = COMMANDS[command];
+    if (!spec) throw new Error(`Unknown command: ${command}`);
+    if (file === undefined || rest.length < spec.required - 1 || rest.length > spec.required + spec.optional - 1)
+      throw new Error(`Wrong number of arguments for '${command}'. See 'edit-config --help'.`);
+    if (options.defaultFormat && !isWritableFormat(options.defaultFormat)) throw new Error(`Unknown format: ${options.defaultFormat}`);
+
+    const dryRun = options.dryRun || options.check;
+    const logger = options.verbose ? getLogger(stderr) : noLogger;
+    const manager = new Manager({ root: options.root, logger, dryRun });
+
+    if (command === "apply") {
+      await manager.applyRecipe(file);
+      const { files, created, changed } = await manager.saveAll();
+      if (dryRun) files.forEach((result) => stdout.write(result.diff));
+      return options.check && created.length + changed.length > 0 ? EXIT.failure : EXIT.success;
+    }
+
+    const dataFile = await manager.load(file, {
+      rootDataPath: options.rootDataPath === undefined ? undefined : parsePath(options.rootDataPath),
+      cosmiconfig: options.cosmiconfig,
+      defaultFormat: options.defaultFormat,
+    });
+
+    const exitCode = runCommand(command, dataFile, rest, options, stdout);
+    if (exitCode !== undefined) return exitCode;
+
+    const result = await dataFile.save();
+    if (dryRun && result?.diff) stdout.write(result.diff);
+    return options.check && result?.status !== "unchanged" ? EXIT.failure : EXIT.success;
+  } catch (error) {
+    stderr.write(`edit-config: ${error.message}\n`);
+    return EXIT.error;
+  }
+}
@@ -0,0 +1,151 @@
+import { dirname, isAbsolute, resolve } from "path";
+import { pathExists } from "fs-extra";
+import get from "lodash.get";
+import has from "lodash.has";
+import unset from "lodash.unset";
+import mergeWith from "lodash.mergewith";
+import cloneDeep from "clone-deep";
+import type DataFile from "./data-file";
+import { getArrayPath, isObject } from "./helper";
+import { DataPath, PathValue, TypedDataPath } from "./types";
+
+/**
+ * Freezes given value and its children, so that it cannot be modified.
+ *
+ * @ignore
+ */
+function deepFreeze<V>(value: V): V {
+  if (Array.isArray(value) || isObject(value)) Object.values(value).forEach((child) => deepFreeze(child));
+  return Object.freeze(value);
+}
+
+/**
+ * Returns extended file specifiers from the value of the `extends` key. Strings and arrays of strings are supported.
+ *
+ * @ignore
+ */
+export function getExtendsSpecifiers(value: any): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
+
+/**
+ * Resolves the path of an extended file. Relative and absolute paths are resolved from the directory of the extending file,
+ * `.json` extension is added if the path does not exist without it. Other specifiers are resolved as packages from the
+ * directory of the extending file. For packages, `tsconfig.json` of the package and ESLint shareable config naming
+ * conventions (e.g. `airbnb` for `eslint-config-airbnb`) are also tried.
+ *
+ * @ignore
+ * @param specifier is the value in the `extends` key. (e.g. `./tsconfig.base.json`, `@tsconfig/node14/tsconfig.json`)
+ * @param fromPath is the path of the extending file.
+ * @returns resolved absolute path or `undefined` if package cannot be resolved. (e.g. `eslint:recommended`)
+ */
+export async function resolveExtends(specifier: string, fromPath: string): Promise<string | undefined> {
+  const dir = dirname(fromPath);
+  if (specifier.startsWith(".") || isAbsolute(specifier)) {
+    const path = resolve(dir, specifier);
+    if (await pathExists(path)) return path;
+    return (await pathExists(`${path}.json`)) ? `${path}.json` : path;
+  }
+
+  const [scope, name] = specifier.startsWith("@") ? specifier.split("/") : [undefined, specifier];
+  const eslintNames = scope
+    ? [`${scope}/eslint-config${name ? `-${name}` : ""}`, `${scope}/eslint-config`]
+    : [`eslint-config-${specifier}`];
+  const candidates = [specifier, `${specifier}.json`, `${specifier}/tsconfig.json`, ...eslintNames];
+  const found = candidates.find((candidate) => {
+    try {
+      require.resolve(candidate, { paths: [dir] });
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  return found && require.resolve(found, { paths: [dir] });
+}
+
+/**
+ * Configuration file loaded together with the files it extends using `extends` key. (e.g. `tsconfig.json`, `.eslintrc`)
+ * Provides a merged read-only view of the chain and reports which file supplies a value, so the right file can be edited.
+ * Files are merged from the base to the leaf: objects are merged deeply, other values including arrays are overridden.
+ * Files of the chain are regular [[DataFile]] instances, changes made to them are reflected in the view.
+ */
+export default class ConfigChain<T extends object = any> {
+  /** Files of the chain from the highest precedence to the lowest. First file is the loaded (leaf) file. */
+  public readonly files: DataFile[];
+
+  /** Specifiers in `extends` keys, which cannot be resolved to files. (e.g. `eslint:recommended`, `plugin:react/recommended`) */
+  public readonly unresolved: string[];
+
+  readonly #extendsKey: DataPath;
+
+  /** @ignore */
+  public constructor(files: DataFile[], unresolved: string[], extendsKey: DataPath) {
+    this.files = files;
+    this.unresolved = unresolved;
+    this.#extendsKey = extendsKey;
+  }
+
+  /** The loaded (leaf) file. */
+  public get file(): DataFile<T> {
+    return this.files[0];
+  }
+
+  /** Merged data of the chain without the `extends` key. It is frozen and computed again on each access. */
+  public get data(): T {
+    const arrayCustomizer = (objValue: any, srcValue: any): any => (Array.isArray(srcValue) ? cloneDeep(srcValue) : undefined);
+    const data = mergeWith({}, ...[...this.files].reverse().map((file) => cloneDeep(file.data)), arrayCustomizer);
+    unset(data, getArrayPath(this.#extendsKey) as any);
+    return deepFreeze(data);
+  }
+
+  /**
+   * Returns whether given `path` exists in the merged data.
+   *
+   * @param path is data path of the property to check.
+   * @returns whether path exists.
+   */
+  public has(path: TypedDataPath<T>): boolean {
+    return has(this.data, getArrayPath(path) as any);
+  }
+
+  /**
+   * Gets the value at `path` of the merged data.
+   *
+   * @param path is data path of the property to get.
+   * @param defaultValue is value to get if path does not exists on data.
+   * @returns merged value or default value.
+   *
+   * @example
+   * chain.get("compilerOptions.strict");
+   */
+  public get<P extends TypedDataPath<T>>(path: P, defaultValue?: PathValue<T, P>): PathValue<T, P> {
+    return get(this.data, getArrayPath(path) as any, defaultValue) as PathValue<T, P>;
+  }
+
+  /**
+   * Returns the file which supplies the value at `path` in the merged data. Objects may be supplied by more than one file,
+   * in that case file with the highest precedence is returned. See [[ConfigChain.getSources]].
+   *
+   * @param path is data path of the value.
+   * @returns the file or `undefined` if none of the files has the path.
+   *
+   * @example
+   * const tsconfig = await manager.loadExtendsChain("tsconfig.json");
+   * tsconfig.getSource("compilerOptions.strict")?.set("compilerOptions.strict", false); // Edits the file which sets it.
+   */
+  public getSource(path: TypedDataPath<T>): DataFile | undefined {
+    return this.getSources(path)[0];
+  }
+
+  /**
+   * Returns all files having a value at `path` from the highest precedence to the lowest.
+   *
+   * @param path is data path of the value.
+   * @returns the files having the path.
+   */
+  public getSources(path: TypedDataPath<T>): DataFile[] {
+    const keys = getArrayPath(path);
+    return this.files.filter((file) => (keys.length === 0 ? true : has(file.data, keys as any)));
+  }
+}
@@ -0,0 +1,218 @@
+/** Person in `package.json`. */
+export type PackageJsonPerson = string | { name: string; email?: string; url?: string };
+
+/** Dependency map of `package.json`. Keys are package names, values are version ranges. */
+export type PackageJsonDependencies = Record<string, string>;
+
+/** Compiler options of the `tsconfig.json` file. */
+export interface TsConfigCompilerOptions {
+  allowArbitraryExtensions?: boolean;
+  allowImportingTsExtensions?: boolean;
+  allowJs?: boolean;
+  allowSyntheticDefaultImports?: boolean;
+  allowUmdGlobalAccess?: boolean;
+  allowUnreachableCode?: boolean;
+  allowUnusedLabels?: boolean;
+  alwaysStrict?: boolean;
+  baseUrl?: string;
+  checkJs?: boolean;
+  composite?: boolean;
+  customConditions?: string[];
+  declaration?: boolean;
+  declarationDir?: string;
+  declarationMap?: boolean;
+  downlevelIteration?: boolean;
+  emitBOM?: boolean;
+  emitDeclarationOnly?: boolean;
+  emitDecoratorMetadata?: boolean;
+  esModuleInterop?: boolean;
+  exactOptionalPropertyTypes?: boolean;
+  experimentalDecorators?: boolean;
+  forceConsistentCasingInFileNames?: boolean;
+  importHelpers?: boolean;
+  incremental?: boolean;
+  inlineSourceMap?: boolean;
+  inlineSources?: boolean;
+  isolatedDeclarations?: boolean;
+  isolatedModules?: boolean;
+  jsx?: string;
+  jsxFactory?: string;
+  jsxFragmentFactory?: string;
+  jsxImportSource?: string;
+  lib?: string[];
+  mapRoot?: string;
+  maxNodeModuleJsDepth?: number;
+  module?: string;
+  moduleDetection?: string;
+  moduleResolution?: string;
+  moduleSuffixes?: string[];
+  newLine?: string;
+  noEmit?: boolean;
+  noEmitHelpers?: boolean;
+  noEmitOnError?: boolean;
+  noFallthroughCasesInSwitch?: boolean;
+  noImplicitAny?: boolean;
+  noImplicitOverride?: boolean;
+  noImplicitReturns?: boolean;
+  noImplicitThis?: boolean;
+  noPropertyAccessFromIndexSignature?: boolean;
+  noUncheckedIndexedAccess?: boolean;
+  noUnusedLocals?: boolean;
+  noUnusedParameters?: boolean;
+  outDir?: string;
+  outFile?: string;
+  paths?: Record<string, string[]>;
+  plugins?: Array<{ name: string; [key: string]: unknown }>;
+  preserveConstEnums?: boolean;
+  preserveSymlinks?: boolean;
+  removeComments?: boolean;
+  resolveJsonModule?: boolean;
+  rootDir?: string;
+  rootDirs?: string[];
+  skipLibCheck?: boolean;
+  sourceMap?: boolean;
+  sourceRoot?: string;
+  strict?: boolean;
+  strictBindCallApply?: boolean;
+  strictFunctionTypes?: boolean;
+  strictNullChecks?: boolean;
+  strictPropertyInitialization?: boolean;
+  stripInternal?: boolean;
+  target?: string;
+  tsBuildInfoFile?: string;
+  typeRoots?: string[];
+  types?: string[];
+  useDefineForClassFields?: boolean;
+  useUnknownInCatchVariables?: boolean;
+  verbatimModuleSyntax?: boolean;
+}
+
+/** Data of the `tsconfig.json` file. */
+export interface TsConfig {
+  extends?: string | string[];
+  compilerOptions?: TsConfigCompilerOptions;
+  compileOnSave?: boolean;
+  files?: string[];
+  include?: string[];
+  exclude?: string[];
+  references?: Array<{ path: string; prepend?: boolean }>;
+  typeAcquisition?: { enable?: boolean; include?: string[]; exclude?: string[]; disableFilenameBasedTypeAcquisition?: boolean };
+  watchOptions?: Record<string, unknown>;
+  "ts-node"?: Record<string, unknown>;
+}
+
+/** Severity of an ESLint rule. */
+export type EslintRuleLevel = "off" | "warn" | "error" | 0 | 1 | 2;
+
+/** Configuration of an ESLint rule: severity alone or severity followed by options. */
+export type EslintRuleEntry = EslintRuleLevel | [EslintRuleLevel, ...unknown[]];
+
+/** Data of the ESLint configuration. (e.g. `.eslintrc`, `.eslintrc.json`, `.eslintrc.js`, `eslintConfig` of `package.json`) */
+export interface EslintConfig {
+  root?: boolean;
+  extends?: string | string[];
+  parser?: string;
+  parserOptions?: Record<string, unknown>;
+  env?: Record<string, boolean>;
+  globals?: Record<string, boolean | "readonly" | "writable" | "off">;
+  plugins?: string[];
+  settings?: Record<string, unknown>;
+  rules?: Record<string, EslintRuleEntry>;
+  overrides?: Array<Omit<EslintConfig, "root" | "overrides"> & { files: string | string[]; excludedFiles?: string | string[] }>;
+  ignorePatterns?: string | string[];
+  noInlineConfig?: boolean;
+  reportUnusedDisableDirectives?: boolean;
+}
+
+/** Data of the Prettier configuration. (e.g. `.prettierrc`, `prettier.config.js`, `prettier` of `package.json`) */
+export interface PrettierRc {
+  printWidth?: number;
+  tabWidth?: number;
+  useTabs?: boolean;
+  semi?: boolean;
+  singleQuote?: boolean;
+  quoteProps?: "as-needed" | "consistent" | "preserve";
+  jsxSingleQuote?: boolean;
+  trailingComma?: "none" | "es5" | "all";
+  bracketSpacing?: boolean;
+  bracketSameLine?: boolean;
+  arrowParens?: "avoid" | "always";
+  proseWrap?: "always" | "never" | "preserve";
+  endOfLine?: "lf" | "crlf" | "cr" | "auto";
+  plugins?: string[];
+  overrides?: Array<{ files: string | string[]; excludeFiles?: string | string[]; options: Omit<PrettierRc, "overrides"> }>;
+}
+
+/** Plugin or preset entry of the Babel configuration: name alone or name followed by options. */
+export type BabelPluginEntry = string | [string, Record<string, unknown>?, string?];
+
+/** Data of the Babel configuration. (e.g. `.babelrc`, `babel.config.json`, `babel` of `package.json`) */
+export interface BabelConfig {
+  presets?: BabelPluginEntry[];
+  plugins?: BabelPluginEntry[];
+  env?: Record<string, Omit<BabelConfig, "env">>;
+  overrides?: Array<BabelConfig & { test?: string | string[]; include?: string | string[]; exclude?: string | string[] }>;
+  ignore?: string[];
+  only?: string[];
+  sourceType?: "script" | "module" | "unambiguous";
+  babelrcRoots?: boolean | string | string[];
+}
+
+/**
+ * Data of the `package.json` file. Fields of other tools are not included, intersect with your own type to use them.
+ *
+ * @example
+ * const packageJson = await manager.load<PackageJson>("package.json");
+ * const packageJson = await manager.load<PackageJson & { myTool: { enabled: boolean } }>("package.json");
+ */
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  description?: string;
+  keywords?: string[];
+  homepage?: string;
+  bugs?: string | { url?: string; email?: string };
+  license?: string;
+  author?: PackageJsonPerson;
+  contributors?: PackageJsonPerson[];
+  maintainers?: PackageJsonPerson[];
+  funding?: string | { type?: string; url: string } | Array<string | { type?: string; url: string }>;
+  files?: string[];
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  types?: string;
+  typings?: string;
+  type?: "commonjs" | "module";
+  exports?: string | Record<string, unknown> | null;
+  imports?: Record<string, unknown>;
+  bin?: string | Record<string, string>;
+  man?: string | string[];
+  directories?: Record<string, string>;
+  repository?: string | { type?: string; url: string; directory?: string };
+  scripts?: Record<string, string>;
+  config?: Record<string, unknown>;
+  dependencies?: PackageJsonDependencies;
+  devDependencies?: PackageJsonDependencies;
+  peerDependencies?: PackageJsonDependencies;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  optionalDependencies?: PackageJsonDependencies;
+  bundledDependencies?: boolean | string[];
+  bundleDependencies?: boolean | string[];
+  overrides?: Record<string, unknown>;
+  resolutions?: Record<string, string>;
+  engines?: Record<string, string>;
+  os?: string[];
+  cpu?: string[];
+  private?: boolean;
+  publishConfig?: Record<string, unknown>;
+  workspaces?: string[] | { packages?: string[]; nohoist?: string[] };
+  sideEffects?: boolean | string[];
+  husky?: { hooks?: Record<string, string> };
+  "lint-staged"?: Record<string, string | string[]>;
+  jest?: Record<string, unknown>;
+  eslintConfig?: EslintConfig;
+  prettier?: PrettierRc | string;
+  babel?: BabelConfig;
+  browserslist?: string[] | Record<string, string[]>;
+}
@@ -0,0 +1,192 @@
+/* eslint-disable no-param-reassign */
+import YAML from "yaml";
+import type { Node, Pair, Scalar, YAMLMap, YAMLSeq } from "yaml/types";
+import commentJson from "comment-json";
+import { isObject } from "./helper";
+import { joinPath } from "./path";
+import { FileFormat, Key } from "./types";
+
+/** @ignore */
+interface NodeComments {
+  /** Comment lines before the node. */
+  before?: string[];
+  /** Comment on the same line after the node. */
+  inline?: string;
+}
+
+/**
+ * Comments of the nodes by their paths. Comments of the beginning of the file have an empty path.
+ *
+ * @ignore
+ */
+type CommentMap = Map<string, NodeComments>;
+
+/**
+ * Returns comment lines of a comment-json comment token. Leading asterisks of block comments are removed.
+ *
+ * @ignore
+ */
+function getCommentLines(tokens: Array<{ type: string; value: string }> = []): string[] {
+  return tokens.reduce((lines: string[], { type, value }) => {
+    if (type === "LineComment") return [...lines, value];
+    const blockLines = value.split(/\r?\n/).map((line) => line.replace(/^\s*\*(?!\/)/, "").trimEnd());
+    return [...lines, ...blockLines.filter((line) => line.trim() !== "").map((line) => (line.startsWith(" ") ? line : ` ${line}`))];
+  }, []);
+}
+
+/**
+ * Adds given comments to the map, skipping empty ones.
+ *
+ * @ignore
+ */
+function addComments(comments: CommentMap, path: Key[], before: string[], inline?: string): void {
+  const key = joinPath(path);
+  const existing = comments.get(key) ?? {};
+  if (before.length > 0) existing.before = [...(existing.before ?? []), ...before];
+  if (inline) existing.inline = existing.inline ? `${existing.inline} ${inline.trim()}` : inline;
+  if (existing.before || existing.inline) comments.set(key, existing);
+}
+
+/**
+ * Returns comments of JSON content parsed by `comment-json`.
+ *
+ * @ignore
+ */
+function getJsonComments(content: string): CommentMap {
+  const comments: CommentMap = new Map();
+  const visit = (value: any, path: Key[]): void => {
+    if (!Array.isArray(value) && !isObject(value)) return;
+    Object.keys(value).forEach((key) => {
+      const childPath = [...path, Array.isArray(value) ? Number(key) : key];
+      const inline = ["after-prop", "after-colon", "after-value", "after-comma", "after"].reduce(
+        (lines: string[], position) => [...lines, ...getCommentLines((value as any)[Symbol.for(`${position}:${key}`)])],
+        []
+      );
+      addComments(comments, childPath, getCommentLines((value as any)[Symbol.for(`before:${key}`)]), inline.join(" "));
+      visit((value as any)[key], childPath);
+    });
+  };
+
+  const data = commentJson.parse(content);
+  addComments(comments, [], getCommentLines(data?.[Symbol.for("before-all")]));
+  visit(data, []);
+  return comments;
+}
+
+/**
+ * Returns lines of a comment of a YAML node.
+ *
+ * @ignore
+ */
+function getYamlCommentLines(comment?: string | null): string[] {
+  return comment ? comment.split("\n") : [];
+}
+
+/**
+ * Returns items of a YAML collection node with their keys. Scalar nodes have no items.
+ *
+ * @ignore
+ */
+function getYamlItems(node: Node | null): Array<{ key: Key; item: any; value: Node | null }> {
+  if (!node || !Array.isArray((node as YAMLMap | YAMLSeq).items)) return [];
+  // Type of the created collections is not set, so map items are detected by the type of the pairs.
+  const items = (node as YAMLMap | YAMLSeq).items as any[];
+  const isMap = items.some((item) => item?.type === "PAIR" || item?.type === "MERGE_PAIR");
+  return items.map((item, index) => ({
+    key: isMap ? (item as Pair).key?.value ?? (item as Pair).key : index,
+    item,
+    value: isMap ? (item as Pair).value : item,
+  }));
+}
+
+/**
+ * Returns comments of YAML content. Comments of multi-document content are not returned.
+ *
+ * @ignore
+ */
+function getYamlComments(content: string): CommentMap {
+  const comments: CommentMap = new Map();
+  const documents = YAML.parseAllDocuments(content);
+  if (documents.length !== 1) return comments;
+
+  const visit = (node: Node | null, path: Key[]): void =>
+    getYamlItems(node).forEach(({ key, item, value }, index) => {
+      // Comment before the first item is attached to the collection.
+      const collectionComment = index === 0 ? getYamlCommentLines((node as Node).commentBefore) : [];
+      const inline = getYamlItems(value).length === 0 ? (value as Scalar | null)?.comment?.replace(/\n/g, " ") : undefined;
+      addComments(comments, [...path, key], [...collectionComment, ...getYamlCommentLines(item?.commentBefore)], inline);
+      visit(value, [...path, key]);
+    });
+
+  const [document] = documents;
+  addComments(comments, [], getYamlCommentLines(document.commentBefore));
+  visit(document.contents as Node | null, []);
+  return comments;
+}
+
+/**
+ * Returns comments of the given JSON or YAML content. Other formats are not supported and return no comments.
+ *
+ * @ignore
+ * @param content is the content of the file.
+ * @param format is the format of the content.
+ * @returns comments by their paths.
+ */
+export function getComments(content: string | undefined, format: FileFormat): CommentMap {
+  if (content === undefined) return new Map();
+  if (format === "json") return getJsonComments(content);
+  return format === "yaml" ? getYamlComments(content) : new Map();
+}
+
+/**
+ * Returns a copy of the data with comments attached as `comment-json` symbols, so they are written by `comment-json`.
+ *
+ * @ignore
+ * @param data is the data to copy.
+ * @param comments are comments by their paths.
+ * @returns copy of the data with comments.
+ */
+export function withJsonComments(data: any, comments: CommentMap, path: Key[] = []): any {
+  if (!Array.isArray(data) && !isObject(data)) return data;
+  const keys = Object.keys(data);
+  const copy: any = Array.isArray(data) ? [] : {};
+  const toTokens = (lines: string[], inline: boolean): any[] => lines.map((value) => ({ type: "LineComment", value, inline }));
+
+  keys.forEach((key, index) => {
+    const childPath = [...path, Array.isArray(data) ? index : key];
+    copy[key] = withJsonComments(data[key], comments, childPath);
+    const { before, inline } = comments.get(joinPath(childPath)) ?? {};
+    if (before) copy[Symbol.for(`before:${key}`)] = toTokens(before, false);
+    // Inline comments are written after the comma, except for the last item.
+    if (inline) copy[Symbol.for(`${index === keys.length - 1 ? "after-value" : "after-comma"}:${key}`)] = toTokens([inline], true);
+  });
+
+  const top = path.length === 0 ? comments.get("")?.before : undefined;
+  if (top) copy[Symbol.for("before-all")] = toTokens(top, false);
+  return copy;
+}
+
+/**
+ * Returns YAML content of the data with given comments.
+ *
+ * @ignore
+ * @param data is the data to stringify.
+ * @param comments are comments by their paths.
+ * @returns YAML content.
+ */
+export function stringifyYamlWithComments(data: any, comments: CommentMap): string {
+  const visit = (node: Node | null, path: Key[]): void =>
+    getYamlItems(node).forEach(({ key, item, value }) => {
+      const { before, inline } = comments.get(joinPath([...path, key])) ?? {};
+      if (before) item.commentBefore = before.join("\n");
+      if (inline && value && getYamlItems(value).length === 0) value.comment = inline;
+      visit(value, [...path, key]);
+    });
+
+  const document = new YAML.Document();
+  document.contents = YAML.createNode(data) as any;
+  const top = comments.get("")?.before;
+  if (top) document.commentBefore = top.join("\n");
+  visit(document.contents as Node | null, []);
+  return String(document);
+}
@@ -1,16 +1,20 @@
 /* eslint-disable no-param-reassign */
-import { isAbsolute, relative, normalize, join } from "path";
-import commentJson, { assign } from "comment-json";
-import yaml from "js-yaml";
-import { outputFile, pathExists } from "fs-extra";
+import { isAbsolute, relative, normalize, join, extname, dirname, basename } from "path";
+import { randomBytes } from "crypto";
+import { assign } from "comment-json";
+import { outputFile, pathExists, remove } from "fs-extra";
 import has from "lodash.has";
 import get from "lodash.get";
 import set from "lodash.set";
 import unset from "lodash.unset";
-import merge from "lodash.merge";
+import mergeWith from "lodash.mergewith";
 import isEqual from "lodash.isequal";
 import cloneDeep from "clone-deep";
 
+import { getFormat, getFormatReport, isWritableFormat } from "./format";
+import { patchJs, isEditableJs, createJs } from "./js-config";
+import { getComments, withJsonComments, stringifyYamlWithComments } from "./convert";
+import { resolveSchema, compileSchema } from "./schema";
 import {
   noLogger,
   getPrettierConfig,
@@ -23,8 +27,19 @@ import {
   evaluate,
   isManipulationOptions,
   getArrayPath,
-  getFormatFromFileName,
   isEmpty,
+  readFileTolerated,
+  getSaveResult,
+  getArrayMergeCustomizer,
+  matchesItem,
+  getNewItems,
+  getChangedPaths,
+  isIdentical,
+  getValue,
+  getPatchOperations,
+  getPatchPath,
+  toJsonPointer,
+  isObject,
 } from "./helper";
 
 import {
@@ -32,12 +47,34 @@ import {
   Key,
   Logger,
   FileFormat,
+  FormatReport,
   PrettierConfig,
   DataPath,
   PredicateFunction,
   StringDataPath,
   DataFileLoadOptions,
+  SaveResult,
+  StagedFile,
+  ValidationError,
+  ItemPredicate,
+  ConflictStrategy,
+  TypedDataPath,
+  PathValue,
+  PathSetValue,
+  ValueFunction,
+  HistoryEntry,
+  ValueState,
+  JsonPatchOperation,
+  InterpolationOptions,
+  ConvertOptions,
+  CosmiconfigLoadOptions,
 } from "./types";
+import { ConflictError } from "./errors";
+import { isQueryPath, resolveQueryPath, matchesConditions } from "./path";
+import { interpolate } from "./interpolation";
+
+/** Past tense of the array operations used in logs. */
+const arrayOperationNames = { appendItems: "appended", prependItems: "prepended", insertItems: "inserted", removeItems: "filtered" };
 
 /**
  * Read, edit and write configuration files.
@@ -52,6 +89,7 @@ export default class DataFile<T extends object = any> {
   readonly #defaultData?: object;
   readonly #path: string;
   readonly #format: FileFormat;
+  readonly #formatReport: FormatReport;
   readonly #logger: Logger;
   readonly #rootDir?: string;
   readonly #modifiedKeys: { set: Set<StringDataPath>; deleted: Set<StringDataPath> } = { set: new Set(), deleted: new Set() };
@@ -59,9 +97,22 @@ export default class DataFile<T extends object = any> {
   readonly #readOnly: boolean;
   readonly #initialData?: T;
   readonly #saveIfChanged: boolean;
+  readonly #dryRun: boolean;
+  readonly #schemaOption?: object | false;
+  #schema?: object | null;
+  readonly #validateOnSave: boolean;
+  readonly #onConflict: ConflictStrategy;
+  readonly #interpolation?: InterpolationOptions;
+  #multiDocument: boolean;
 
   #sorted = false;
   #prettierConfig?: PrettierConfig;
+  #content?: string;
+  #contentData?: any; // Data of the last loaded or saved content.
+  #validator?: (data: any) => ValidationError[];
+  #history: HistoryEntry[] = [];
+  #redoStack: HistoryEntry[] = [];
+  #recording = false;
 
   private constructor(
     path: string,
@@ -70,6 +121,7 @@ export default class DataFile<T extends object = any> {
     options: {
       logger?: Logger;
       format?: FileFormat;
+      formatReport?: FormatReport;
       defaultData?: object;
       prettierConfig?: PrettierConfig;
       shortPath?: string;
@@ -77,19 +129,40 @@ export default class DataFile<T extends object = any> {
       rootDir?: string;
       readOnly?: boolean;
       saveIfChanged?: boolean;
+      dryRun?: boolean;
+      content?: string;
+      schema?: object | false;
+      validateOnSave?: boolean;
+      onConflict?: ConflictStrategy;
+      interpolate?: boolean | InterpolationOptions;
+      multiDocument?: boolean;
     }
   ) {
     this.#path = path;
     this.data = data;
     this.#format = options.format ?? "json";
+    this.#formatReport = options.formatReport ?? {
+      format: this.#format,
+      source: "default",
+      reason: `'${this.#format}' is used by default.`,
+    };
     this.#logger = options.logger ?? noLogger;
     this.#prettierConfig = options.prettierConfig;
     this.#rootDir = options.rootDir;
     this.#defaultData = options.defaultData;
     this.#rootDataPath = options.rootDataPath ? (getArrayPath(options.rootDataPath) as string[]) : undefined;
-    this.#readOnly = options.readOnly === true;
+    this.#readOnly =
+      options.readOnly === true || (this.#format === "js" ? !isEditableJs(options.content ?? "", path) : !isWritableFormat(this.#format));
     this.found = found;
     this.#saveIfChanged = options.saveIfChanged || false;
+    this.#dryRun = options.dryRun || false;
+    this.#content = options.content;
+    this.#schemaOption = options.schema;
+    this.#validateOnSave = options.validateOnSave || false;
+    this.#onConflict = options.onConflict ?? "overwrite";
+    this.#interpolation = options.interpolate === true ? {} : options.interpolate || undefined;
+    this.#multiDocument = this.#format === "yaml" && options.multiDocument === true;
+    this.#contentData = cloneDeep(data);
     if (this.#saveIfChanged) this.#initialData = cloneDeep(data);
   }
 
@@ -98,13 +171,60 @@ export default class DataFile<T extends object = any> {
     return normalize(this.#rootDir ? relative(this.#rootDir, this.#path) : this.#path);
   }
 
-  /** Whether file can be saved using this library. */
+  /** Path of the file. */
+  public get path(): string {
+    return this.#path;
+  }
+
+  /** Whether data has modifications which are not saved yet. */
+  public get isModified(): boolean {
+    return !isIdentical(this.data, this.#contentData);
+  }
+
+  /**
+   * Format of the file and how it is determined: `format` option, file name, extension, content or default format.
+   * Useful to find out why a file without extension (e.g. `.prettierrc`) is loaded as YAML instead of JSON.
+   *
+   * @example
+   * const prettierrc = await manager.load(".prettierrc");
+   * prettierrc.formatReport; // { format: "yaml", source: "file-name", reason: "'.prettierrc' is a known 'json' or 'yaml' file. Parsed as 'yaml' after 'json' failed: ..." }
+   */
+  public get formatReport(): FormatReport {
+    return this.#formatReport;
+  }
+
+  /** Format forced by the `format` option, used when file is read again. */
+  private get forcedFormat(): FileFormat | undefined {
+    return this.#formatReport.source === "option" ? this.#format : undefined;
+  }
+
+  /**
+   * Whether file is a YAML file with multiple documents (e.g. Kubernetes manifests). Data of such files is an array of the documents,
+   * so documents are addressed by index (e.g. `0.metadata.name`) or filters (e.g. `[kind=Service].spec`).
+   */
+  public get isMultiDocument(): boolean {
+    return this.#multiDocument;
+  }
+
+  /**
+   * Whether file can be saved using this library. `js` files are read only unless they export an object literal. Files of
+   * registered formats without `stringify` are also read only.
+   */
   public get readOnly(): boolean {
-    return this.#format === "js" || this.#readOnly;
+    return this.#readOnly;
   }
 
   /**
-   * Returns whether given `path` exists in file data.
+   * Whether data is a part of the file stored at `rootDataPath` (e.g. `prettier` key of `package.json`).
+   *
+   * @ignore
+   */
+  public get isPartial(): boolean {
+    return this.#rootDataPath !== undefined;
+  }
+
+  /**
+   * Returns whether given `path` exists in file data. For query paths, returns whether any of the matched paths exists.
    *
    * @param path is data path of the property to check.
    * @returns whether path exists.
@@ -112,13 +232,17 @@ export default class DataFile<T extends object = any> {
    * @example
    * dataFile.has("script.build");
    * dataFile.has(["script", "build"]);
+   * dataFile.has("overrides[files=*.ts]");
    */
-  public has(path: DataPath): boolean {
-    return has(this.data, path as any);
+  public has(path: TypedDataPath<T>): boolean {
+    if (isQueryPath(path)) return this.getQueryPaths(path).length > 0;
+    return has(this.data, getArrayPath(path) as any);
   }
 
   /**
    * Gets the value at `path` of file data. If the resolved value is undefined, the `defaultValue` is returned in its place.
+   * For query paths, returns an array of the values at the existing matched paths. If `interpolate` option is set, placeholders
+   * in the value are resolved. (See [[InterpolationOptions]])
    *
    * @param path is data path of the property to get.
    * @param defaultValue is value to get if path does not exists on data.
@@ -127,14 +251,31 @@ export default class DataFile<T extends object = any> {
    * @example
    * dataFile.get("script.build");
    * dataFile.get(["script", "build"]);
+   * dataFile.get("workspaces.*.name"); // ["a", "b"]
+   * dataFile.get("scripts.deploy"); // "deploy --ci true" for "deploy --ci ${env.CI}" if `interpolate` option is set.
+   */
+  public get<P extends TypedDataPath<T>>(path: P, defaultValue?: PathValue<T, P>): PathValue<T, P> {
+    if (isQueryPath(path)) return this.getQueryPaths(path).map((queryPath) => this.resolve(queryPath)) as any;
+    const value = this.resolve(getArrayPath(path));
+    return (value === undefined ? defaultValue : value) as PathValue<T, P>;
+  }
+
+  /**
+   * Returns the value at given path with placeholders resolved if `interpolate` option is set.
+   *
+   * @param path is the data path of the value.
+   * @throws InterpolationError if a placeholder cannot be resolved.
    */
-  public get(path: DataPath, defaultValue?: any): any {
-    return get(this.data, path as any, defaultValue);
+  private resolve(path: Key[]): any {
+    const value = get(this.data, path as any);
+    if (!this.#interpolation) return value;
+    return interpolate(value, this, this.#interpolation, [`${this.#path}:${getStringPath(path)}`]);
   }
 
   /**
    * Sets the value at `path` of file data. If a portion of path doesn't exist, it's created.
    * Arrays are created for missing index properties while objects are created for all other missing properties.
+   * For query paths, value is set at each matched path. Wildcards and filters match only existing values.
    *
    * @param path is data path of the property to set.
    * @param value is value to set or a function which returns value to be set.
@@ -144,20 +285,31 @@ export default class DataFile<T extends object = any> {
    * @example
    * dataFile
    *   .set("script.build", "tsc")
-   *   .set(["scripts", "test"], "jest", { if: (value) => value !== "mocha" });
+   *   .set(["scripts", "test"], "jest", { if: (value) => value !== "mocha" })
+   *   .set("overrides[files=*.ts].rules.semi", "off");
    */
-  public set(path: DataPath, value: any, { if: condition, logger }: { if?: PredicateFunction; logger?: Logger } = {}): this {
+  public set<P extends TypedDataPath<T>>(
+    path: P,
+    value: PathSetValue<T, P> | ValueFunction,
+    { if: condition, logger }: { if?: PredicateFunction; logger?: Logger } = {}
+  ): this {
+    if (isQueryPath(path)) {
+      resolveQueryPath(this.data, path).forEach((queryPath) => this.set(queryPath as P, value, { if: condition, logger }));
+      return this;
+    }
+
     const shouldDo = predicate(condition, this, path);
     if (shouldDo) {
-      set(this.data, path as any, evaluate(value, this, path));
-      this.#modifiedKeys.set.add(getStringPath(path));
+      this.record("set", path, () => set(this.data, getArrayPath(path) as any, evaluate(value, this, path)));
+      this.#modifiedKeys.set.add(getStringPath(getArrayPath(path)));
     }
     this.logOperation("set", shouldDo, path, logger);
     return this;
   }
 
   /**
-   * Deletes the property at `path` of file data.
+   * Deletes the property at `path` of file data. For query paths, each existing matched path is deleted and matched array
+   * elements are removed from their arrays.
    *
    * @param path is data path of the property to delete.
    * @param if is the function to test whether operation should be performed. If result is false, operation is not performed.
@@ -166,18 +318,77 @@ export default class DataFile<T extends object = any> {
    * @example
    * dataFile
    *   .delete("script.build")
-   *   .delete(["scripts", "test"], { if: (value) => value !== "jest" });
+   *   .delete(["scripts", "test"], { if: (value) => value !== "jest" })
+   *   .delete("plugins[name=legacy]");
    */
-  public delete(path: DataPath, { if: condition, logger }: { if?: PredicateFunction; logger?: Logger } = {}): this {
+  public delete(path: TypedDataPath<T>, { if: condition, logger }: { if?: PredicateFunction; logger?: Logger } = {}): this {
+    if (isQueryPath(path)) {
+      this.getQueryPaths(path)
+        .reverse()
+        .forEach((queryPath) => this.deleteMatch(queryPath, condition, logger));
+      return this;
+    }
+
     const shouldDo = predicate(condition, this, path);
     if (shouldDo) {
-      unset(this.data, path as any);
-      this.#modifiedKeys.deleted.add(getStringPath(path));
+      this.record("delete", path, () => unset(this.data, getArrayPath(path) as any));
+      this.#modifiedKeys.deleted.add(getStringPath(getArrayPath(path)));
     }
     this.logOperation("unset", shouldDo, path, logger);
     return this;
   }
 
+  /**
+   * Deletes a path matched by a query path. Array elements are removed from the array instead of leaving holes.
+   *
+   * @param path is the matched data path.
+   * @param condition is the function to test whether operation should be performed.
+   * @param logger is winston compatible logger to be used when logging.
+   */
+  private deleteMatch(path: Key[], condition?: PredicateFunction, logger?: Logger): void {
+    const parentPath = path.slice(0, -1);
+    const parent: any = parentPath.length === 0 ? this.data : get(this.data, parentPath as any);
+    if (!Array.isArray(parent)) {
+      this.delete(path as TypedDataPath<T>, { if: condition, logger });
+      return;
+    }
+
+    const shouldDo = predicate(condition, this, path);
+    if (shouldDo) {
+      this.record("delete", parentPath, () => parent.splice(path[path.length - 1] as number, 1));
+      this.#modifiedKeys.deleted.add(getStringPath(path));
+    }
+    this.logOperation("unset", shouldDo, path, logger);
+  }
+
+  /**
+   * Returns existing concrete paths matched by given query path.
+   *
+   * @param path is the query path.
+   */
+  private getQueryPaths(path: string): Key[][] {
+    return resolveQueryPath(this.data, path).filter((queryPath) => has(this.data, queryPath as any));
+  }
+
+  /**
+   * Returns the index of the first document matching all of the given properties in a multi-document YAML file.
+   * Keys of the selector are data paths and values are compared as strings.
+   *
+   * @param selector is the properties of the document to find.
+   * @returns index of the document or `-1` if no document matches.
+   * @throws if file is not a multi-document YAML file.
+   *
+   * @example
+   * const index = dataFile.findDocument({ kind: "Service", "metadata.name": "web" });
+   * dataFile.set([index, "spec", "type"], "NodePort");
+   * dataFile.set("[kind=Service&metadata.name=web].spec.type", "NodePort"); // Same using a query path.
+   */
+  public findDocument(selector: Record<string, any>): number {
+    if (!this.#multiDocument) throw new Error(`Cannot find document: '${this.#path}' is not a multi-document YAML file.`);
+    const conditions = Object.keys(selector).map((key) => ({ path: getArrayPath(key), value: String(selector[key]) }));
+    return (this.data as any[]).findIndex((document) => matchesConditions(document, conditions));
+  }
+
   /**
    * Deletes path recursively if value at given path is empty. (If parent path is empty after value is deleted, parent path would be deleted too.)
    *
@@ -193,7 +404,7 @@ export default class DataFile<T extends object = any> {
   public deleteEmptyPath(path: DataPath): this {
     const arrayPath = getArrayPath(path);
     while (arrayPath.length > 0) {
-      if (this.isEmpty(arrayPath)) this.delete(arrayPath);
+      if (this.isEmpty(arrayPath)) this.delete(arrayPath as TypedDataPath<T>);
       arrayPath.pop();
     }
 
@@ -206,7 +417,7 @@ export default class DataFile<T extends object = any> {
    * @returns whether given value is empty.
    */
   public isEmpty(path: DataPath): boolean {
-    return isEmpty(this.get(path));
+    return isEmpty(get(this.data, getArrayPath(path) as any));
   }
 
   /**
@@ -216,35 +427,188 @@ export default class DataFile<T extends object = any> {
    * Source objects are applied from left to right. Subsequent sources overwrite property assignments of previous sources.
    *
    * If you would like merge root object (`this.data`), use empty array `[]` as path, because `undefined`, '' and `null` are valid object keys.
+   * For query paths, values are merged into each existing matched path.
    *
    * @param path is data path of the property to delete.
    * @param valuesAndOptions are objects to merge given path or a function which returns object to be merged.
    * @param valuesAndOptions.predicateFn is the function to test whether operation should be performed. If result is false, operation is not performed.
    * @param valuesAndOptions.logger is winston compatible logger to be used when logging.
+   * @param valuesAndOptions.arrayMerge is the strategy to merge arrays. Arrays are merged by index by default. See [[ArrayMergeStrategy]].
    *
    * @example
    * dataFile.merge("scripts", { build: "tsc", test: "jest", }, { if: (scripts) => scripts.build !== "someCompiler" });
    * dataFile.merge([], { name: "my-module", version: "1.0.0" });
+   * dataFile.merge([], { files: ["dist"], keywords: ["config"] }, { arrayMerge: "union" });
+   * dataFile.merge("overrides", [{ files: "*.ts", rules: { semi: "off" } }], { arrayMerge: { unionBy: "files" } });
    */
   public merge(path: DataPath, ...valuesAndOptions: any[]): this {
+    if (isQueryPath(path)) {
+      this.getQueryPaths(path).forEach((queryPath) => this.merge(queryPath, ...valuesAndOptions));
+      return this;
+    }
+
     const hasPath = !(Array.isArray(path) && path.length === 0);
     const hasOptions = isManipulationOptions(valuesAndOptions[valuesAndOptions.length - 1]);
-    const object = hasPath ? this.get(path) : this.data;
+    const object = hasPath ? get(this.data, getArrayPath(path) as any) : this.data;
     const options = hasOptions ? valuesAndOptions[valuesAndOptions.length - 1] : {};
     const values = hasOptions ? valuesAndOptions.slice(0, -1) : valuesAndOptions;
     const shouldDo = predicate(options.if, this, path);
 
     if (shouldDo) {
       const sources = values.map((value) => evaluate(value, this, path));
-      if (hasPath && !this.has(path)) this.set(path, merge({}, ...sources));
-      else merge(object, ...sources);
+      const customizer = getArrayMergeCustomizer(options.arrayMerge);
+      this.record("merge", path, () => {
+        // Missing object is created directly instead of calling `set`, so the operation is logged once.
+        if (hasPath && !has(this.data, getArrayPath(path) as any))
+          set(this.data, getArrayPath(path) as any, mergeWith({}, ...sources, customizer));
+        else mergeWith(object, ...sources, customizer);
+      });
       this.logOperation("merged", shouldDo, path, options.logger);
-      this.#modifiedKeys.set.add(getStringPath(path));
+      this.#modifiedKeys.set.add(getStringPath(getArrayPath(path)));
     }
 
     return this;
   }
 
+  /**
+   * Appends given items to the array at `path`. If array does not exist, it's created.
+   *
+   * @param path is data path of the array.
+   * @param items are items to append.
+   * @param unique is whether to skip items which already exist in the array. Items are compared deeply.
+   * @param if is the function to test whether operation should be performed. If result is false, operation is not performed.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if value at `path` exists and is not an array.
+   *
+   * @example
+   * dataFile.appendItems("files", ["dist", "README.md"], { unique: true });
+   */
+  public appendItems(
+    path: DataPath,
+    items: any[],
+    { unique, if: condition, logger }: { unique?: boolean; if?: PredicateFunction; logger?: Logger } = {}
+  ): this {
+    return this.editArray("appendItems", path, { if: condition, logger }, (array) => {
+      array.push(...getNewItems(array, items, unique));
+    });
+  }
+
+  /**
+   * Prepends given items to the array at `path`. If array does not exist, it's created.
+   *
+   * @param path is data path of the array.
+   * @param items are items to prepend.
+   * @param unique is whether to skip items which already exist in the array. Items are compared deeply.
+   * @param if is the function to test whether operation should be performed. If result is false, operation is not performed.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if value at `path` exists and is not an array.
+   *
+   * @example
+   * dataFile.prependItems("extends", ["eslint:recommended"], { unique: true });
+   */
+  public prependItems(
+    path: DataPath,
+    items: any[],
+    { unique, if: condition, logger }: { unique?: boolean; if?: PredicateFunction; logger?: Logger } = {}
+  ): this {
+    return this.editArray("prependItems", path, { if: condition, logger }, (array) => {
+      array.unshift(...getNewItems(array, items, unique));
+    });
+  }
+
+  /**
+   * Inserts given items before or after the first matching item of the array at `path`. If no item matches (or neither `before`
+   * nor `after` is provided), items are appended to the end of the array. If array does not exist, it's created.
+   *
+   * @param path is data path of the array.
+   * @param items are items to insert.
+   * @param before is the value (compared deeply) or the predicate function to find the item to insert before.
+   * @param after is the value (compared deeply) or the predicate function to find the item to insert after.
+   * @param unique is whether to skip items which already exist in the array. Items are compared deeply.
+   * @param if is the function to test whether operation should be performed. If result is false, operation is not performed.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if value at `path` exists and is not an array.
+   *
+   * @example
+   * dataFile.insertItems("extends", ["plugin:prettier/recommended"], { after: "airbnb-base" });
+   * dataFile.insertItems("plugins", ["jest"], { before: (plugin) => plugin.startsWith("@typescript-eslint") });
+   */
+  public insertItems(
+    path: DataPath,
+    items: any[],
+    {
+      before,
+      after,
+      unique,
+      if: condition,
+      logger,
+    }: { before?: any | ItemPredicate; after?: any | ItemPredicate; unique?: boolean; if?: PredicateFunction; logger?: Logger } = {}
+  ): this {
+    return this.editArray("insertItems", path, { if: condition, logger }, (array) => {
+      const matcher = before === undefined ? after : before;
+      const found = matcher === undefined ? -1 : array.findIndex((item, index) => matchesItem(matcher, item, index, array));
+      const index = found === -1 ? array.length : found + (before === undefined ? 1 : 0);
+      array.splice(index, 0, ...getNewItems(array, items, unique));
+    });
+  }
+
+  /**
+   * Removes items matching given values or predicate from the array at `path`. Values are compared deeply.
+   *
+   * @param path is data path of the array.
+   * @param itemsOrPredicate are items to remove or the function to test whether an item should be removed.
+   * @param if is the function to test whether operation should be performed. If result is false, operation is not performed.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if value at `path` exists and is not an array.
+   *
+   * @example
+   * dataFile.removeItems("files", ["lib"]);
+   * dataFile.removeItems("plugins", (plugin) => plugin.startsWith("tslint"));
+   */
+  public removeItems(
+    path: DataPath,
+    itemsOrPredicate: any[] | ItemPredicate,
+    { if: condition, logger }: { if?: PredicateFunction; logger?: Logger } = {}
+  ): this {
+    return this.editArray("removeItems", path, { if: condition, logger }, (array) => {
+      const shouldRemove: ItemPredicate =
+        typeof itemsOrPredicate === "function" ? itemsOrPredicate : (item) => itemsOrPredicate.some((value) => isEqual(value, item));
+      for (let index = array.length - 1; index >= 0; index -= 1) if (shouldRemove(array[index], index, array)) array.splice(index, 1);
+    });
+  }
+
+  /**
+   * Edits the array at given path in place to keep its comments. If array does not exist, it's created. Records and logs the operation.
+   *
+   * @ignore
+   * @param op is the name of the method.
+   * @param path is data path of the array.
+   * @param options are manipulation options.
+   * @param edit is the function which modifies given array in place.
+   * @throws if value at `path` exists and is not an array.
+   */
+  private editArray(
+    op: keyof typeof arrayOperationNames,
+    path: DataPath,
+    options: { if?: PredicateFunction; logger?: Logger },
+    edit: (array: any[]) => void
+  ): this {
+    const shouldDo = predicate(options.if, this, path);
+    if (shouldDo) {
+      const hasPath = !(Array.isArray(path) && path.length === 0);
+      const array = hasPath ? get(this.data, getArrayPath(path) as any, []) : this.data;
+      if (!Array.isArray(array))
+        throw new Error(`Cannot edit items: '${getStringPath(getArrayPath(path))}' is not an array in '${this.#path}'.`);
+      this.record(op, path, () => {
+        edit(array);
+        if (hasPath && !has(this.data, getArrayPath(path) as any)) set(this.data, getArrayPath(path) as any, array);
+      });
+      this.#modifiedKeys.set.add(getStringPath(getArrayPath(path)));
+    }
+    this.logOperation(arrayOperationNames[op], shouldDo, path, options.logger);
+    return this;
+  }
+
   /**
    * Returns deleted and modified keys (paths) in data file. Keys may be filtered by required condition.
    *
@@ -278,7 +642,7 @@ export default class DataFile<T extends object = any> {
    * @param end are ordered keys to appear at the end of given path when saved.
    * @returns same object with ordered keys.
    */
-  private _sortObjectKeys<T extends object>(object: T, { start = [] as string[], end = [] as string[] } = {}): T {
+  private _sortObjectKeys<O extends object>(object: O, { start = [] as string[], end = [] as string[] } = {}): O {
     const objectKeys = Object.keys(object);
     const allKeys = Array.from(new Set([...start, ...objectKeys.filter((k) => !end.includes(k)).sort(), ...end]));
     const keys = allKeys.filter((k) => Object.prototype.hasOwnProperty.call(object, k));
@@ -303,50 +667,631 @@ export default class DataFile<T extends object = any> {
    */
   public sortKeys(path: DataPath, { start, end }: { start?: string[]; end?: string[] } = {}): this {
     const hasPath = !(Array.isArray(path) && path.length === 0);
-    if (hasPath && this.has(path as any)) set(this.data, path as any, this._sortObjectKeys(this.get(path), { start, end }));
-    else this.data = this._sortObjectKeys(this.data, { start, end });
+    this.record("sortKeys", hasPath && has(this.data, getArrayPath(path) as any) ? path : [], () => {
+      if (hasPath && has(this.data, getArrayPath(path) as any))
+        set(this.data, getArrayPath(path) as any, this._sortObjectKeys(get(this.data, getArrayPath(path) as any), { start, end }));
+      else this.data = this._sortObjectKeys(this.data, { start, end });
+    });
+    return this;
+  }
+
+  /** Whether there is an operation to undo. */
+  public get canUndo(): boolean {
+    return this.#history.length > 0;
+  }
+
+  /** Whether there is an undone operation to redo. */
+  public get canRedo(): boolean {
+    return this.#redoStack.length > 0;
+  }
+
+  /**
+   * Returns operations applied using [[DataFile]] methods in the order they are applied. Each entry has the values before and
+   * after the operation. Undone operations are not included. History is cleared when data is reloaded from disk.
+   *
+   * @returns history entries.
+   *
+   * @example
+   * dataFile.set("scripts.build", "tsc").getHistory(); // [{ op: "set", path: ["scripts", "build"], before: { exists: false }, after: { exists: true, value: "tsc" } }]
+   */
+  public getHistory(): HistoryEntry[] {
+    return cloneDeep(this.#history);
+  }
+
+  /**
+   * Reverts the last operation. Does nothing if there is no operation to undo.
+   *
+   * @example
+   * dataFile.set("scripts.build", "tsc").undo(); // `scripts.build` has its previous value.
+   */
+  public undo(): this {
+    const entry = this.#history.pop();
+    if (entry) {
+      this.restoreState(entry.path, entry.before);
+      [...(entry.createdPaths ?? [])].reverse().forEach((parentPath) => this.restoreState(parentPath, { exists: false }));
+      this.#redoStack.push(entry);
+    }
+    return this;
+  }
+
+  /**
+   * Applies the last undone operation again. Does nothing if there is no operation to redo. Redo stack is cleared when a new
+   * operation is applied.
+   *
+   * @example
+   * dataFile.set("scripts.build", "tsc").undo().redo(); // `scripts.build` is "tsc".
+   */
+  public redo(): this {
+    const entry = this.#redoStack.pop();
+    if (entry) {
+      this.restoreState(entry.path, entry.after);
+      this.#history.push(entry);
+    }
+    return this;
+  }
+
+  /**
+   * Takes a snapshot of data, modified keys and history, and returns a function which restores them. Used to roll back failed
+   * edits without recording the rollback in the history.
+   *
+   * @ignore
+   * @returns function which restores the snapshot.
+   */
+  public createRestorePoint(): () => void {
+    const data = cloneDeep(this.data);
+    const modifiedKeys = { set: new Set(this.#modifiedKeys.set), deleted: new Set(this.#modifiedKeys.deleted) };
+    const history = [...this.#history];
+    const redoStack = [...this.#redoStack];
+    const sorted = this.#sorted;
+    return () => {
+      this.data = data;
+      this.#modifiedKeys.set = modifiedKeys.set;
+      this.#modifiedKeys.deleted = modifiedKeys.deleted;
+      this.#history = history;
+      this.#redoStack = redoStack;
+      this.#sorted = sorted;
+    };
+  }
+
+  /**
+   * Returns an [RFC 6902](https://tools.ietf.org/html/rfc6902) JSON Patch, which reverts the operations in the history. Only the
+   * keys changed by the operations are included, so the patch can be stored and applied later with [[DataFile.applyPatch]]
+   * to remove exactly what is added, even if the file is modified by others meanwhile.
+   *
+   * @returns JSON Patch operations.
+   *
+   * @example
+   * const inversePatch = dataFile.merge("scripts", { build: "tsc" }).getInversePatch(); // [{ op: "remove", path: "/scripts/build" }]
+   */
+  public getInversePatch(): JsonPatchOperation[] {
+    // Parents created by an operation are removed after the value, starting from the deepest one.
+    return this.#history.reduceRight(
+      (result, entry) => [
+        ...result,
+        ...getPatchOperations(entry.path, entry.after, entry.before),
+        ...[...(entry.createdPaths ?? [])]
+          .reverse()
+          .map((parentPath): JsonPatchOperation => ({ op: "remove", path: toJsonPointer(parentPath) })),
+      ],
+      [] as JsonPatchOperation[]
+    );
+  }
+
+  /**
+   * Applies [RFC 6902](https://tools.ietf.org/html/rfc6902) JSON Patch operations or an [RFC 7386](https://tools.ietf.org/html/rfc7386)
+   * JSON Merge Patch. Arrays are applied as JSON Patch, objects as JSON Merge Patch. Paths of the JSON Patch operations may be JSON Pointers
+   * (e.g. `/scripts/build`) or dot separated data paths (e.g. `scripts.build`). Patch is applied completely or not applied at all,
+   * and it's recorded as a single operation in the history.
+   *
+   * @param patch is the JSON Patch operations or the JSON Merge Patch to apply.
+   * @param path is the data path or JSON Pointer which patch is applied to. Paths of the JSON Patch operations are relative to it.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if an operation cannot be applied or a `test` operation fails.
+   *
+   * @example
+   * dataFile.applyPatch([{ op: "add", path: "/scripts/build", value: "tsc" }, { op: "remove", path: "/scripts/test" }]);
+   * dataFile.applyPatch([{ op: "test", path: "scripts.test", value: "mocha" }, { op: "replace", path: "scripts.test", value: "jest" }]);
+   * dataFile.applyPatch({ scripts: { build: "tsc", test: null } }); // JSON Merge Patch: `null` deletes the key.
+   * dataFile.applyPatch({ build: "tsc" }, { path: "/scripts" });
+   */
+  public applyPatch(
+    patch: JsonPatchOperation[] | Record<string, any>,
+    { path = [], logger }: { path?: DataPath; logger?: Logger } = {}
+  ): this {
+    const restore = this.createRestorePoint();
+    const basePath = getPatchPath(path);
+    try {
+      this.record("applyPatch", basePath, () => {
+        if (Array.isArray(patch)) patch.forEach((operation) => this.applyPatchOperation(operation, basePath));
+        else this.applyMergePatch(basePath, patch);
+      });
+    } catch (error) {
+      restore();
+      throw error;
+    }
+    this.logOperation("patched", true, basePath, logger);
     return this;
   }
 
-  /** Saves file. If this is a partial data uses only related part by utilizing `rootDataPath` option. */
+  /**
+   * Returns an [RFC 6902](https://tools.ietf.org/html/rfc6902) JSON Patch, which converts the last loaded or saved data to the current data.
+   * Objects are compared recursively, changed arrays are replaced as a whole.
+   *
+   * @returns JSON Patch operations.
+   *
+   * @example
+   * dataFile.set("scripts.build", "tsc").delete("private").diff(); // [{ op: "add", path: "/scripts/build", value: "tsc" }, { op: "remove", path: "/private" }]
+   */
+  public diff(): JsonPatchOperation[] {
+    return getPatchOperations([], { exists: true, value: this.#contentData }, { exists: true, value: this.data });
+  }
+
+  /**
+   * Applies single JSON Patch operation to the data.
+   *
+   * @param operation is the JSON Patch operation.
+   * @param basePath is the data path which paths of the operation are relative to.
+   * @throws if operation cannot be applied.
+   */
+  private applyPatchOperation({ op, path, from, value }: JsonPatchOperation, basePath: Key[]): void {
+    const fail = (reason: string): Error => new Error(`Cannot apply patch: '${op}' operation at '${path}' ${reason} in '${this.#path}'.`);
+    const keys = [...basePath, ...getPatchPath(path)];
+
+    if (op === "add" || op === "remove" || op === "replace") this.patchValue(op, keys, fail, cloneDeep(value));
+    else if (op === "test") {
+      if (!isEqual(this.patchValue("get", keys, fail), value)) throw fail("failed");
+    } else if (op === "move" || op === "copy") {
+      if (from === undefined) throw fail("has no 'from'");
+      const fromKeys = [...basePath, ...getPatchPath(from)];
+      const isDescendant = fromKeys.length < keys.length && isEqual(fromKeys.map(String), keys.slice(0, fromKeys.length).map(String));
+      if (op === "move" && isDescendant) throw fail("cannot move a value into its child");
+      const source = this.patchValue(op === "move" ? "remove" : "get", fromKeys, fail);
+      this.patchValue("add", keys, fail, op === "move" ? source : cloneDeep(source));
+    } else throw fail("is not supported");
+  }
+
+  /**
+   * Gets, adds, removes or replaces the value at given path according to JSON Patch rules. Array indexes are inserted for `add`,
+   * and `-` is used for the end of the array.
+   *
+   * @param op is the operation.
+   * @param keys is the data path of the value.
+   * @param fail is the function to create error for given reason.
+   * @param value is the value to add or replace.
+   * @returns previous value at the path.
+   * @throws if parent does not exist, value does not exist for operations other than `add` or array index is not valid.
+   */
+  private patchValue(op: "get" | "add" | "remove" | "replace", keys: Key[], fail: (reason: string) => Error, value?: any): any {
+    if (keys.length === 0) {
+      if (op === "remove") throw fail("cannot remove the root");
+      const current = this.data;
+      if (op !== "get") this.data = value;
+      return current;
+    }
+
+    const key = String(keys[keys.length - 1]);
+    const parentKeys = keys.slice(0, -1);
+    const parent: any = parentKeys.length === 0 ? this.data : get(this.data, parentKeys as any);
+    if (!Array.isArray(parent) && !isObject(parent)) throw fail("has no parent");
+    const isIndex = /^\d+$/.test(key);
+    const exists = Array.isArray(parent) ? isIndex && Number(key) < parent.length : has(parent, [key]);
+    if (op !== "add" && !exists) throw fail("has no value");
+    const current = exists ? parent[key as any] : undefined;
+
+    if (Array.isArray(parent)) {
+      const index = key === "-" ? parent.length : Number(key);
+      if (op === "add" && key !== "-" && !(isIndex && index <= parent.length)) throw fail("has invalid array index");
+      if (op === "add") parent.splice(index, 0, value);
+      else if (op === "replace") parent.splice(index, 1, value);
+      else if (op === "remove") parent.splice(index, 1);
+    } else if (op === "remove") delete parent[key];
+    else if (op !== "get") parent[key] = value;
+
+    if (op !== "get") this.#modifiedKeys[op === "remove" ? "deleted" : "set"].add(getStringPath(keys));
+    return current;
+  }
+
+  /**
+   * Applies JSON Merge Patch to the value at given path. Objects are merged recursively, `null` values delete keys,
+   * other values (including arrays) replace the value.
+   *
+   * @param path is the data path of the value.
+   * @param patch is the JSON Merge Patch.
+   */
+  private applyMergePatch(path: Key[], patch: any): void {
+    const target = path.length === 0 ? this.data : get(this.data, getArrayPath(path) as any);
+    if (!isObject(patch) || !isObject(target)) {
+      const value = isObject(patch) ? {} : cloneDeep(patch);
+      if (path.length === 0) this.data = value;
+      else set(this.data, getArrayPath(path) as any, value);
+      this.#modifiedKeys.set.add(getStringPath(path));
+      if (!isObject(patch)) return;
+    }
+
+    Object.keys(patch).forEach((key) => {
+      if (patch[key] !== null) this.applyMergePatch([...path, key], patch[key]);
+      else if (has(this.data, [...path, key] as any)) {
+        unset(this.data, [...path, key] as any);
+        this.#modifiedKeys.deleted.add(getStringPath([...path, key]));
+      }
+    });
+  }
+
+  /**
+   * Validates data with the JSON Schema provided by `schema` option, referenced by `$schema` key of the data or built-in schema
+   * of the well known files (`package.json` and `tsconfig.json`).
+   *
+   * @returns validation errors. Empty if data is valid or there is no schema for the file.
+   * @throws if schema is invalid.
+   *
+   * @example
+   * const errors = dataFile.set("compilerOptions.strict", "yes").validate(); // [{ path: ["compilerOptions", "strict"], message: "should be boolean,null", keyword: "type" }]
+   */
+  public validate(): ValidationError[] {
+    // Schema is resolved on first validation, so an unresolvable `$schema` reference does not prevent loading the file.
+    if (this.#schema === undefined) {
+      const schemaOption = this.#rootDataPath ? this.#schemaOption ?? false : this.#schemaOption;
+      this.#schema = resolveSchema(this.#path, this.data, schemaOption) ?? null;
+    }
+    if (!this.#schema) return [];
+    if (!this.#validator) this.#validator = compileSchema(this.#schema);
+    return this.#validator(this.data);
+  }
+
+  /**
+   * Saves file. If this is a partial data uses only related part by utilizing `rootDataPath` option.
+   * In dry run mode, file is not written. Instead, serialized content is compared with the content on disk and the result is logged and returned.
+   *
+   * @returns save result including status and unified diff, or `undefined` if file is read only.
+   *
+   * @example
+   * const { status, diff } = await dataFile.save({ dryRun: true });
+   */
   public async save({
     /** Whether to throw if file is read only. */
     throwOnReadOnly = true,
     /** Winston compatible logger to be used when logging. */
     logger,
-  }: { throwOnReadOnly?: boolean; logger?: Logger } = {}): Promise<void> {
-    if (this.readOnly) {
-      const logLevel = throwOnReadOnly ? "error" : "warn";
-      (logger || this.#logger).log(logLevel, `File not saved: '${em(this.shortPath)}' is marked as readonly or is a 'js' file.`);
-      if (throwOnReadOnly) throw new Error(`Cannot save: ${this.#path} is marked as readonly or is a 'js' file.`);
+    /** Whether to only report changes without writing the file. */
+    dryRun = this.#dryRun,
+    /** What to do if the file is changed on disk after it is loaded or saved. Not used in dry run. */
+    onConflict = this.#onConflict,
+  }: { throwOnReadOnly?: boolean; logger?: Logger; dryRun?: boolean; onConflict?: ConflictStrategy } = {}): Promise<
+    SaveResult | undefined
+  > {
+    if (!this.checkWritable(throwOnReadOnly, logger)) return undefined;
+    if (this.isUnchanged) return { path: this.#path, status: "unchanged", diff: "" };
+    if (!dryRun) await this.checkConflict(onConflict, logger);
+    this.checkValid(logger);
+    const content = await this.serialize(true);
+    const result = getSaveResult(this.#path, this.shortPath, await readFileTolerated(this.#path), content);
+
+    if (dryRun) {
+      const diff = result.diff ? `\n${result.diff}` : "";
+      (logger || this.#logger).log(
+        "info",
+        `Dry run: ${em(this.shortPath)} would be ${result.status === "unchanged" ? "left untouched" : result.status}.${diff}`
+      );
+      return result;
+    }
+
+    await outputFile(this.#path, content);
+    this.onSaved(content, logger);
+    return result;
+  }
+
+  /**
+   * Writes serialized data into a temporary sibling file, which is moved into place later by [[Manager.saveAll]] in atomic mode.
+   *
+   * @ignore
+   * @param logger is winston compatible logger to be used when logging.
+   * @returns staged file or `undefined` if file is read only.
+   */
+  public async stage({ logger }: { logger?: Logger } = {}): Promise<StagedFile | undefined> {
+    if (!this.checkWritable(false, logger)) return undefined;
+    const commit = (): void => {}; // eslint-disable-line @typescript-eslint/no-empty-function
+    if (this.isUnchanged) return { result: { path: this.#path, status: "unchanged", diff: "" }, commit };
+    await this.checkConflict(this.#onConflict, logger);
+    this.checkValid(logger);
+
+    const content = await this.serialize(true);
+    const original = await readFileTolerated(this.#path);
+    // Random suffix prevents files staged for the same path in the same process from overwriting each other.
+    const tempPath = join(dirname(this.#path), `.${basename(this.#path)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`);
+    await outputFile(tempPath, content);
+    const result = getSaveResult(this.#path, this.shortPath, original, content);
+    return { result, tempPath, original, commit: () => this.onSaved(content, logger) };
+  }
+
+  /**
+   * Converts the file to another format and path (e.g. `.eslintrc.json` to `.eslintrc.yml`), saves and returns the new file.
+   * Comments of JSON and YAML files are carried over to JSON and YAML files. Configuration stored in another file
+   * (e.g. `prettier` key of `package.json`) is written as a whole file, and its key is deleted with `deleteOriginal` option.
+   * Data can also be moved into a key of another file using `rootDataPath` option. New `js` files export an object literal.
+   *
+   * @param path is the path of the new file. Relative paths are based on the root directory.
+   * @param options are options.
+   * @returns [[DataFile]] instance of the new file.
+   * @throws if new format is not writable, or new file (or its `rootDataPath` key) already exists and `overwrite` is not set.
+   *
+   * @example
+   * const eslintrc = await manager.load(".eslintrc.json");
+   * const converted = await eslintrc.convert(".eslintrc.yml", { deleteOriginal: true });
+   */
+  public async convert(
+    path: string,
+    { format, deleteOriginal = false, overwrite = false, rootDataPath, dryRun = this.#dryRun, logger = this.#logger }: ConvertOptions = {}
+  ): Promise<DataFile> {
+    const fullPath = isAbsolute(path) || !this.#rootDir ? path : join(this.#rootDir, path);
+    const isSamePath = fullPath === this.#path;
+    const formatReport = getFormatReport(fullPath, format, this.#format === "js" ? undefined : this.#format);
+    const newFormat = formatReport.format;
+    const exists = await pathExists(fullPath);
+    // New `js` files are created with an exported object literal, but data cannot be moved into an existing `js` file.
+    if (!isWritableFormat(newFormat) && (newFormat !== "js" || rootDataPath !== undefined))
+      throw new Error(`Cannot convert: ${this.#path} to '${newFormat}', the format is not writable.`);
+
+    const target = rootDataPath === undefined ? "file" : `'${getStringPath(getArrayPath(rootDataPath))}' key`;
+    const isOccupied =
+      exists &&
+      (rootDataPath === undefined || has((await readData(fullPath, {}, undefined, format)).data, getArrayPath(rootDataPath) as any));
+    if (isOccupied && !isSamePath && !overwrite)
+      throw new Error(`Cannot convert: ${this.#path} to ${fullPath}, the ${target} already exists.`);
+
+    // Comments are read from the content, so they are not available for a part of a file.
+    const comments = getComments(this.#rootDataPath || rootDataPath ? undefined : this.#content, this.#format);
+    let { data } = this;
+    let content: string | undefined;
+    if (newFormat === this.#format && !this.#rootDataPath && !rootDataPath) content = this.#content;
+    else {
+      // Data is copied without the comments of the original JSON data, and JSON comments are attached to the copy.
+      data = withJsonComments(data, newFormat === "json" ? comments : new Map());
+      if (newFormat === "js") content = createJs(fullPath, data);
+      else if (newFormat === "yaml" && !this.#multiDocument && !rootDataPath) content = stringifyYamlWithComments(data, comments);
+    }
+
+    const converted = new DataFile(fullPath, data, exists, {
+      logger: this.#logger,
+      format: newFormat,
+      formatReport,
+      rootDir: this.#rootDir,
+      rootDataPath,
+      dryRun: this.#dryRun,
+      content,
+      schema: this.#schemaOption,
+      validateOnSave: this.#validateOnSave,
+      interpolate: this.#interpolation,
+      multiDocument: this.#multiDocument,
+    });
+    await converted.save({ dryRun, logger });
+
+    if (deleteOriginal && !isSamePath && this.found) {
+      if (this.#rootDataPath) {
+        const wholeFile = await DataFile.load(this.#path, { format: this.forcedFormat, logger: this.#logger, rootDir: this.#rootDir });
+        await wholeFile.delete(this.#rootDataPath).save({ dryRun, logger });
+      } else if (dryRun) {
+        logger.log("info", `Dry run: ${em(this.shortPath)} would be deleted.`);
+      } else {
+        await remove(this.#path);
+        this.found = false;
+        logger.log("info", `File deleted: ${em(this.shortPath)}`);
+      }
+    }
+
+    logger.log("info", `File converted: ${em(this.shortPath)} -> ${em(converted.shortPath)} as '${newFormat}'`);
+    return converted;
+  }
+
+  /**
+   * Returns whether file can be saved. Logs and throws (if requested) for read only files.
+   *
+   * @param throwOnReadOnly is whether to throw if file is read only.
+   * @param logger is winston compatible logger to be used when logging.
+   * @returns whether file can be saved.
+   */
+  private checkWritable(throwOnReadOnly: boolean, logger?: Logger): boolean {
+    if (!this.readOnly) return true;
+    const logLevel = throwOnReadOnly ? "error" : "warn";
+    const reason = "is marked as readonly, is a 'js' file without an exported object literal or its format is not writable";
+    (logger || this.#logger).log(logLevel, `File not saved: '${em(this.shortPath)}' ${reason}.`);
+    if (throwOnReadOnly) throw new Error(`Cannot save: ${this.#path} ${reason}.`);
+    return false;
+  }
+
+  /**
+   * Logs and throws if `validateOnSave` option is set and data is not valid according to the schema.
+   *
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws if data is not valid.
+   */
+  private checkValid(logger?: Logger): void {
+    if (!this.#validateOnSave) return;
+    const errors = this.validate();
+    if (errors.length === 0) return;
+    const details = errors.map((error) => `\n  - ${getStringPath(error.path) || "(root)"}: ${error.message}`).join("");
+    (logger || this.#logger).log("error", `File not saved: '${em(this.shortPath)}' is not valid.${details}`);
+    throw new Error(`Cannot save: ${this.#path} is not valid.${details}`);
+  }
+
+  /**
+   * Checks whether the file is changed on disk after it is loaded or saved, and handles it using given strategy.
+   * Files created using [[DataFile.fromData]] for existing paths are overwritten.
+   *
+   * @param onConflict is the strategy to handle conflict.
+   * @param logger is winston compatible logger to be used when logging.
+   * @throws [[ConflictError]] if strategy is `throw`, or `merge` and a key is changed both on disk and in memory with different values.
+   */
+  private async checkConflict(onConflict: ConflictStrategy, logger?: Logger): Promise<void> {
+    if (onConflict === "overwrite" || (this.#content === undefined && this.found)) return;
+    const { data, content } = await readData(this.#path, this.#defaultData || {}, this.#rootDataPath, this.forcedFormat);
+    if (content === this.#content) return;
+
+    const changedPaths = getChangedPaths(this.#contentData, data);
+    const modifiedPaths = onConflict === "merge" ? this.getLocalChanges() : [];
+    const isPrefix = (prefix: Key[], path: Key[]): boolean => prefix.every((key, index) => String(key) === String(path[index]));
+    const isOverlapping = (a: string, b: string): boolean =>
+      a === "" || b === "" || isPrefix(getArrayPath(a), getArrayPath(b)) || isPrefix(getArrayPath(b), getArrayPath(a));
+    const conflictingPaths = modifiedPaths.filter(
+      (path) =>
+        changedPaths.some((changedPath) => isOverlapping(path, changedPath)) && !isEqual(getValue(data, path), getValue(this.data, path))
+    );
+
+    if (onConflict === "throw" || conflictingPaths.length > 0) {
+      const paths = onConflict === "throw" ? changedPaths : conflictingPaths;
+      (logger || this.#logger).log(
+        "error",
+        `File not saved: '${em(this.shortPath)}' is changed on disk: ${paths.map((path) => em(path)).join(", ")}`
+      );
+      throw new ConflictError(
+        `Cannot save: ${this.#path} is changed on disk after it is loaded or saved.`,
+        this.#path,
+        changedPaths,
+        conflictingPaths
+      );
+    }
+
+    const merged = modifiedPaths.reduce((result, path) => {
+      if (path === "") return cloneDeep(this.data);
+      const keys = getArrayPath(path) as any;
+      if (has(this.data, keys)) set(result, keys, cloneDeep(get(this.data, keys)));
+      else unset(result, keys);
+      return result;
+    }, cloneDeep(data));
+
+    this.data = merged;
+    this.#content = content;
+    this.#contentData = data;
+    (logger || this.#logger).log("info", `Changes on disk are merged: ${em(this.shortPath)}`);
+  }
+
+  /**
+   * Returns paths modified using [[DataFile]] methods, which have different values than the last loaded or saved data.
+   *
+   * @returns modified paths. Empty string is used for the root.
+   */
+  private getLocalChanges(): string[] {
+    const { set: setPaths, deleted: deletedPaths } = this.getModifiedKeys();
+    const paths = Array.from(new Set([...setPaths, ...deletedPaths].map((path) => String(path ?? ""))));
+    return paths.filter((path) => !isEqual(getValue(this.data, path), getValue(this.#contentData, path)));
+  }
+
+  /**
+   * Executes given function, which modifies the value at `path`, and records values before and after the modification in the history.
+   * Operations executed by other operations (e.g. `set` called by `merge`) are not recorded separately.
+   *
+   * @param op is the name of the method.
+   * @param path is the data path modified by the function.
+   * @param modify is the function to modify data.
+   */
+  private record(op: string, path: DataPath, modify: () => void): void {
+    if (this.#recording) {
+      modify();
       return;
     }
 
-    if (this.#saveIfChanged && !this.#sorted && isEqual(this.data, this.#initialData)) return;
-    await outputFile(this.#path, await this.serialize(true));
+    const arrayPath = [...getArrayPath(path)];
+    const before = this.getState(arrayPath);
+    const missingPaths = arrayPath
+      .slice(1)
+      .map((_, index) => arrayPath.slice(0, index + 1))
+      .filter((parentPath) => !has(this.data, parentPath as any));
+    this.#recording = true;
+    try {
+      modify();
+    } finally {
+      this.#recording = false;
+    }
+    const after = this.getState(arrayPath);
+    if (before.exists === after.exists && isIdentical(before.value, after.value)) return;
+    const createdPaths = missingPaths.filter((parentPath) => has(this.data, parentPath as any));
+    this.#history.push({ op, path: arrayPath, before, after, ...(createdPaths.length > 0 ? { createdPaths } : {}) });
+    this.#redoStack = [];
+  }
+
+  /**
+   * Returns a copy of the value at given path and whether it exists.
+   *
+   * @param path is the data path. Empty array is used for the root.
+   */
+  private getState(path: Key[]): ValueState {
+    if (path.length === 0) return { exists: true, value: cloneDeep(this.data) };
+    return has(this.data, getArrayPath(path) as any)
+      ? { exists: true, value: cloneDeep(get(this.data, getArrayPath(path) as any)) }
+      : { exists: false };
+  }
+
+  /**
+   * Sets or deletes the value at given path to restore given state.
+   *
+   * @param path is the data path. Empty array is used for the root.
+   * @param state is the state to restore.
+   */
+  private restoreState(path: Key[], state: ValueState): void {
+    if (path.length === 0) this.data = cloneDeep(state.value);
+    else if (state.exists) set(this.data, getArrayPath(path) as any, cloneDeep(state.value));
+    else unset(this.data, getArrayPath(path) as any);
+    this.#modifiedKeys[state.exists ? "set" : "deleted"].add(getStringPath(path));
+  }
+
+  /** Whether save should be skipped, because data is not changed and `saveIfChanged` option is set. */
+  private get isUnchanged(): boolean {
+    return this.#saveIfChanged && !this.#sorted && isEqual(this.data, this.#initialData);
+  }
+
+  /**
+   * Updates state after content is written to disk.
+   *
+   * @param content is the written content.
+   * @param logger is winston compatible logger to be used when logging.
+   */
+  private onSaved(content: string, logger?: Logger): void {
+    this.found = true;
+    this.#content = content;
+    this.#contentData = cloneDeep(this.data);
     (logger || this.#logger).log("info", `File saved: ${em(this.shortPath)}`);
   }
 
   /**
-   * Returns data serialized as text.
+   * Returns data serialized as text. YAML files loaded from disk keep their comments, anchors, quoting and blank lines,
+   * only changed nodes are written again. Line oriented files (`ini`, `env`, `properties`) keep their comments and untouched lines.
+   * JavaScript/TypeScript files are edited through their AST, only literal values can be modified.
    *
    * @param wholeFile is whether to serialize whole file when `rootDataPath` is set. Reads whole file including `rootDataPath` part and serializes whole file data.
    * @returns serialized data as string.
    */
   public async serialize(wholeFile = false): Promise<string> {
+    // Placeholders are written as they are unless `preserve` interpolation option is `false`.
+    const preserve = this.#interpolation?.preserve !== false;
+    let data = preserve ? this.data : interpolate(this.data, this, this.#interpolation as InterpolationOptions);
+    const partialData = data;
+    let originalContent = this.#rootDataPath ? undefined : this.#content;
+
     // If this is a partial data of a file, reread and change related part and serialize.
-    const data =
-      this.#rootDataPath && wholeFile
-        ? set((await readData(this.#path, this.#defaultData || this.data)).data, this.#rootDataPath, this.data)
-        : this.data;
+    if (this.#rootDataPath && wholeFile && this.#format !== "js") {
+      const file = await readData(this.#path, this.#defaultData || this.data, undefined, this.forcedFormat);
+      data = set(file.data, this.#rootDataPath, partialData);
+      originalContent = file.content;
+    }
 
-    let content = this.#format === "json" ? commentJson.stringify(data, null, 2) : yaml.safeDump(data);
+    let content: string;
+    const definition = getFormat(this.#format);
+    if (this.#format === "js") content = patchJs(this.#content ?? "", this.#path, this.#contentData, partialData, this.#rootDataPath);
+    else if (definition?.stringify)
+      content = definition.stringify(data, { path: this.#path, content: originalContent, multiDocument: this.#multiDocument });
+    else throw new Error(`Cannot serialize '${this.#path}': '${this.#format}' format is not writable.`);
 
     if (this.#prettierConfig === undefined) this.#prettierConfig = (await getPrettierConfig(this.#path)) || null;
-    if (this.#prettierConfig) content = prettier.format(content, { ...this.#prettierConfig, parser: this.#format });
+    if (this.#prettierConfig && this.prettierParser)
+      content = prettier.format(content, { ...this.#prettierConfig, parser: this.prettierParser });
     return content;
   }
 
+  /** Prettier parser name for the file. Formats without a prettier parser are not formatted. (e.g. `toml`) */
+  private get prettierParser(): string | undefined {
+    if (this.#format !== "js") return getFormat(this.#format)?.prettierParser;
+    return extname(this.#path).toLowerCase() === ".ts" ? "typescript" : "babel";
+  }
+
   /**
    * Logs given operation
    *
@@ -357,7 +1302,8 @@ export default class DataFile<T extends object = any> {
   private logOperation(op: string, success: boolean, path?: DataPath, logger?: Logger): void {
     const not = success ? "" : "not ";
     const level = success ? "info" : "warn";
-    (logger || this.#logger).log(level, `Key ${not}${op}: '${em(getStringPath(path || "[ROOT]"))}' in '${em(this.shortPath)}'.`);
+    const key = path ? getStringPath(getArrayPath(path)) : "[ROOT]";
+    (logger || this.#logger).log(level, `Key ${not}${op}: '${em(key)}' in '${em(this.shortPath)}'.`);
   }
 
   //
@@ -374,13 +1320,16 @@ export default class DataFile<T extends object = any> {
    * @param options are options.
    * @returns [[DataFile]] instance.
    */
-  public static async fromData(path: string, data: object, options: DataFileFromDataOptions = {}): Promise<DataFile> {
+  public static async fromData<T extends object = any>(
+    path: string,
+    data: object,
+    options: DataFileFromDataOptions = {}
+  ): Promise<DataFile<T>> {
     const fullPath = isAbsolute(path) || !options.rootDir ? path : join(options.rootDir, path);
-    const formatFromFileName = getFormatFromFileName(fullPath);
-    if (formatFromFileName === "js") throw new Error(`Cannot create DataFile from data for 'js' file: ${fullPath}`);
-    const format = formatFromFileName === "" ? options.defaultFormat : formatFromFileName;
+    const formatReport = getFormatReport(fullPath, options.format, options.defaultFormat);
+    if (formatReport.format === "js") throw new Error(`Cannot create DataFile from data for 'js' file: ${fullPath}`);
     const found = await pathExists(fullPath);
-    return new DataFile(fullPath, data, found, { defaultData: data, format, ...options });
+    return new DataFile<T>(fullPath, data as T, found, { defaultData: data, ...options, format: formatReport.format, formatReport });
   }
 
   /**
@@ -391,27 +1340,73 @@ export default class DataFile<T extends object = any> {
    * @returns [[DataFile]] instance.
    * @throws if file exists but cannot be parsed.
    */
-  public static async load(path: string, options?: DataFileLoadOptions): Promise<DataFile> {
+  public static async load<T extends object = any>(path: string, options?: DataFileLoadOptions): Promise<DataFile<T>> {
     const { cosmiconfig, defaultData, rootDataPath, rootDir } = { defaultData: {}, ...options };
     const fullPath = isAbsolute(path) || cosmiconfig || !rootDir ? path : join(rootDir, path);
 
     if (cosmiconfig) {
-      const searchFrom = (cosmiconfig as any)?.searchFrom ?? rootDir;
-      const cosmiconfigOptions = (cosmiconfig as any)?.options;
-      const result = await getCosmiconfigResult(path, defaultData, cosmiconfigOptions, searchFrom, rootDataPath);
-      const format = result.format === "" ? options?.defaultFormat : result.format;
-      return new DataFile(result.path, result.data, result.found, { ...options, ...result, format });
+      const { options: cosmiconfigOptions, searchFrom = rootDir, createAt }: CosmiconfigLoadOptions =
+        cosmiconfig === true ? {} : cosmiconfig;
+      const result = await getCosmiconfigResult(path, defaultData, cosmiconfigOptions, searchFrom, rootDataPath, createAt);
+      const formatReport =
+        (!options?.format && result.formatReport) || getFormatReport(result.path, options?.format, options?.defaultFormat);
+      return new DataFile<T>(result.path, result.data as T, result.found, {
+        ...options,
+        ...result,
+        format: formatReport.format,
+        formatReport,
+      });
     }
 
-    const { data, format, found } = await readData(fullPath, defaultData, rootDataPath);
-    return new DataFile(fullPath, data, found, { format: format || options?.defaultFormat, ...options });
+    const { data, found, content, multiDocument, formatReport } = await readData(fullPath, defaultData, rootDataPath, options?.format);
+    const report = formatReport ?? getFormatReport(fullPath, options?.format, options?.defaultFormat);
+    return new DataFile<T>(fullPath, data as T, found, {
+      ...options,
+      format: report.format,
+      formatReport: report,
+      content,
+      multiDocument: found ? multiDocument : options?.multiDocument,
+    });
   }
 
   /**
    * Reload data from disk. If file is not present resets data to default data.
    */
   public async reload(): Promise<this> {
-    this.data = (await readData(this.#path, this.#defaultData || this.data, this.#rootDataPath)).data;
+    const { data, content, multiDocument } = await readData(
+      this.#path,
+      this.#defaultData || this.data,
+      this.#rootDataPath,
+      this.forcedFormat
+    );
+    this.data = data;
+    this.#content = content;
+    if (content !== undefined) this.#multiDocument = this.#format === "yaml" && multiDocument === true;
+    this.#contentData = cloneDeep(data);
+    this.#history = [];
+    this.#redoStack = [];
     return this;
   }
+
+  /**
+   * Reloads data if the file is changed on disk by another process. If data has unsaved modifications, data is not reloaded to
+   * prevent losing them, and a conflict is reported instead.
+   *
+   * @ignore
+   * @returns data paths changed on disk and whether there is a conflict, or `undefined` if file is not changed on disk.
+   */
+  public async syncWithDisk(): Promise<{ changedPaths: string[]; conflict: boolean } | undefined> {
+    const { data, content, multiDocument } = await readData(this.#path, this.#defaultData || {}, this.#rootDataPath, this.forcedFormat);
+    if (content === this.#content) return undefined;
+    const changedPaths = getChangedPaths(this.#contentData, data);
+    if (this.isModified) return { changedPaths, conflict: true };
+    this.data = data;
+    this.found = content !== undefined;
+    this.#content = content;
+    if (content !== undefined) this.#multiDocument = this.#format === "yaml" && multiDocument === true;
+    this.#contentData = cloneDeep(data);
+    this.#history = [];
+    this.#redoStack = [];
+    return { changedPaths, conflict: false };
+  }
 }
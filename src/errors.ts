@@ -0,0 +1,41 @@
+/* eslint-disable max-classes-per-file */
+/**
+ * Error thrown by [[DataFile.save]] when the file is changed on disk after it is loaded or saved, and `onConflict` option
+ * is `throw`, or `merge` but changes cannot be merged.
+ */
+export class ConflictError extends Error {
+  /** Path of the file. */
+  public readonly path: string;
+  /** Data paths changed on disk after the file is loaded or saved. Empty string is used for the root. */
+  public readonly changedPaths: string[];
+  /** Data paths changed both on disk and in memory with different values. Empty if changes are not tried to be merged. */
+  public readonly conflictingPaths: string[];
+
+  public constructor(message: string, path: string, changedPaths: string[], conflictingPaths: string[] = []) {
+    super(message);
+    Object.setPrototypeOf(this, ConflictError.prototype);
+    this.name = "ConflictError";
+    this.path = path;
+    this.changedPaths = changedPaths;
+    this.conflictingPaths = conflictingPaths;
+  }
+}
+
+/**
+ * Error thrown by [[DataFile.get]] when a placeholder of an interpolated file cannot be resolved, because the referenced
+ * environment variable, key or file does not exist, or references are circular.
+ */
+export class InterpolationError extends Error {
+  /** Path of the file containing the placeholder. */
+  public readonly path: string;
+  /** Reference in the placeholder. (e.g. `env.CI` for `${env.CI}`) */
+  public readonly reference: string;
+
+  public constructor(message: string, path: string, reference: string) {
+    super(message);
+    Object.setPrototypeOf(this, InterpolationError.prototype);
+    this.name = "InterpolationError";
+    this.path = path;
+    this.reference = reference;
+  }
+}
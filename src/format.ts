@@ -0,0 +1,213 @@
+import { basename, extname } from "path";
+import commentJson from "comment-json";
+import yaml from "js-yaml";
+import toml from "@iarna/toml";
+import { patchYaml, patchYamlDocuments } from "./yaml-patch";
+import { parseLineFormat, patchLineFormat, LineFormat } from "./line-format";
+import { evaluateJs } from "./js-config";
+import { FileFormat, FormatDefinition, FormatReport } from "./types";
+
+/**
+ * Registered formats. Later registrations take precedence when matching file names and extensions.
+ *
+ * @ignore
+ */
+const formats = new Map<string, FormatDefinition>();
+
+/**
+ * Formats of well known files without extension. Content of these files is parsed using only the listed formats in order,
+ * so a typo in a JSON file is reported instead of loading the file as a YAML string.
+ *
+ * @ignore
+ */
+export const knownFileNames: Record<string, FileFormat[]> = {
+  ".babelrc": ["json"],
+  ".eslintrc": ["json", "yaml"],
+  ".prettierrc": ["json", "yaml"],
+  ".stylelintrc": ["json", "yaml"],
+  ".lintstagedrc": ["json", "yaml"],
+  ".huskyrc": ["json", "yaml"],
+  ".jshintrc": ["json"],
+  ".swcrc": ["json"],
+  ".npmrc": ["ini"],
+  ".editorconfig": ["ini"],
+  ".gitconfig": ["ini"],
+  ".env": ["env"],
+};
+
+/**
+ * Registers a file format, so files matching its extensions or file names can be loaded and saved by [[DataFile]] and [[Manager]].
+ * A format registered with an existing name replaces the existing format including built-in formats.
+ *
+ * @param definition is the definition of the format.
+ * @throws if format name is empty or `js`, which is edited through its AST by this library.
+ *
+ * @example
+ * registerFormat({ name: "hcl", extensions: ["hcl", "tf"], parse: (content) => hcl.parse(content), stringify: (data) => hcl.stringify(data) });
+ * const terraform = await manager.load("main.tf");
+ */
+export function registerFormat(definition: FormatDefinition): void {
+  if (!definition.name) throw new Error("Cannot register format: name is required.");
+  if (definition.name === "js" && formats.has("js")) throw new Error("Cannot register format: 'js' format cannot be replaced.");
+  formats.delete(definition.name);
+  formats.set(definition.name, definition);
+}
+
+/**
+ * Removes a registered format.
+ *
+ * @param name is the name of the format.
+ * @returns whether format was registered.
+ */
+export function unregisterFormat(name: string): boolean {
+  return name !== "js" && formats.delete(name);
+}
+
+/**
+ * Returns the definition of a registered format.
+ *
+ * @param name is the name of the format.
+ * @returns the definition or `undefined` if format is not registered.
+ */
+export function getFormat(name: FileFormat): FormatDefinition | undefined {
+  return formats.get(name);
+}
+
+/**
+ * Returns registered formats in the order of precedence. Formats registered later come first.
+ *
+ * @returns format definitions.
+ */
+export function getFormats(): FormatDefinition[] {
+  return [...formats.values()].reverse();
+}
+
+/**
+ * Returns whether files of the given format can be saved.
+ *
+ * @ignore
+ */
+export function isWritableFormat(name: FileFormat): boolean {
+  const definition = formats.get(name);
+  return definition !== undefined && (definition.writable ?? definition.stringify !== undefined);
+}
+
+/**
+ * Returns possible formats of a file determined from its name in the order they should be tried, and how they are determined.
+ * File names and patterns of the registered formats are checked first, then well known file names and then the extension.
+ * A pattern does not match a file whose extension belongs to another format.
+ * Files without extension have no formats, their format is determined from their content.
+ *
+ * @ignore
+ * @param path is the path of the file
+ * @returns formats, source and reason.
+ * @throws if no registered format supports the file extension.
+ */
+export function getFileNameFormats(path: string): { formats: FileFormat[]; source?: "file-name" | "extension"; reason: string } {
+  const fileName = basename(path);
+  const fileExtension = extname(path).substring(1).toLowerCase();
+  const byExtension = fileExtension === "" ? undefined : getFormats().find((format) => format.extensions?.includes(fileExtension));
+  // Patterns do not override the extension of another format. (e.g. `.env.json` is a JSON file, although it matches `/^\.env\.[\w-]+$/`)
+  const matchesName = (format: FormatDefinition) => (pattern: string | RegExp): boolean =>
+    typeof pattern === "string"
+      ? pattern.toLowerCase() === fileName.toLowerCase()
+      : pattern.test(fileName) && (byExtension === undefined || byExtension === format);
+  const byName = getFormats().find((format) => format.fileNames?.some(matchesName(format)));
+  if (byName) return { formats: [byName.name], source: "file-name", reason: `'${fileName}' matches file names of '${byName.name}' format` };
+
+  const known = knownFileNames[fileName.toLowerCase()];
+  if (known)
+    return {
+      formats: known,
+      source: "file-name",
+      reason: `'${fileName}' is a known ${known.map((name) => `'${name}'`).join(" or ")} file`,
+    };
+
+  if (fileExtension === "") return { formats: [], reason: `'${fileName}' has no extension` };
+  if (byExtension === undefined) throw new Error(`Unsupported file type: ${fileExtension}`);
+  return { formats: [byExtension.name], source: "extension", reason: `'.${fileExtension}' extension is '${byExtension.name}'` };
+}
+
+/**
+ * Determines file format from file name. See [[getFileNameFormats]].
+ *
+ * @ignore
+ * @param path is the path of the file
+ * @returns file format or an empty string if format cannot be determined from the file name.
+ * @throws if no registered format supports the file extension.
+ */
+export function getFormatFromFileName(path: string): FileFormat {
+  return getFileNameFormats(path).formats[0] ?? "";
+}
+
+/**
+ * Returns the format of a file without reading its content (e.g. a new file) and how it is determined.
+ *
+ * @ignore
+ * @param path is the path of the file.
+ * @param format is the format forced by the `format` option.
+ * @param defaultFormat is the format used if format cannot be determined from the file name.
+ * @returns format report.
+ */
+export function getFormatReport(path: string, format?: FileFormat, defaultFormat?: FileFormat): FormatReport {
+  if (format) return { format, source: "option", reason: `'format' option is '${format}'.` };
+  const fromName = getFileNameFormats(path);
+  if (defaultFormat && fromName.formats.length > 1 && fromName.formats.includes(defaultFormat))
+    return { format: defaultFormat, source: "default", reason: `${fromName.reason}, 'defaultFormat' option is '${defaultFormat}'.` };
+  if (fromName.source) return { format: fromName.formats[0], source: fromName.source, reason: `${fromName.reason}.` };
+  if (defaultFormat)
+    return { format: defaultFormat, source: "default", reason: `${fromName.reason}, 'defaultFormat' option is '${defaultFormat}'.` };
+  return { format: "json", source: "default", reason: `${fromName.reason}, 'json' is used by default.` };
+}
+
+/**
+ * Returns the format of the given content using `detect` functions of the registered formats.
+ *
+ * @ignore
+ * @param content is the content to detect format of.
+ * @returns the definition of the format or `undefined` if none of the formats detects the content.
+ */
+export function detectFormat(content: string): FormatDefinition | undefined {
+  return getFormats().find((format) => format.detect?.(content));
+}
+
+//
+// Built-in formats. JSON, YAML and TOML content of files without extension is detected by trying their parsers in order.
+//
+
+registerFormat({
+  name: "json",
+  extensions: ["json"],
+  parse: (content) => commentJson.parse(content),
+  stringify: (data) => commentJson.stringify(data, null, 2),
+  prettierParser: "json",
+});
+
+registerFormat({
+  name: "yaml",
+  extensions: ["yaml", "yml"],
+  parse: (content) => yaml.safeLoad(content),
+  parseAll: (content) => yaml.safeLoadAll(content),
+  stringify: (data, { content, multiDocument }) => {
+    if (multiDocument && content === undefined) return (data as any[]).map((doc) => yaml.safeDump(doc)).join("---\n");
+    if (multiDocument) return patchYamlDocuments(content as string, data);
+    return content === undefined ? yaml.safeDump(data) : patchYaml(content, data);
+  },
+  prettierParser: "yaml",
+});
+
+// Prettier does not have a built-in toml parser.
+registerFormat({ name: "toml", extensions: ["toml"], parse: (content) => toml.parse(content), stringify: (data) => toml.stringify(data) });
+
+// `js` files are imported or edited through their AST by `DataFile`, parser is used for statically evaluated files.
+registerFormat({ name: "js", extensions: ["js", "cjs", "mjs", "ts"], parse: (content, path) => evaluateJs(content, path) ?? {} });
+
+(["ini", "env", "properties"] as LineFormat[]).forEach((name) =>
+  registerFormat({
+    name,
+    extensions: [name],
+    fileNames: name === "env" ? [/^\.env\.[\w-]+$/] : undefined, // Well known names (e.g. `.npmrc`, `.env`) are in `knownFileNames`.
+    parse: (content) => parseLineFormat(content, name),
+    stringify: (data, { content }) => patchLineFormat(content ?? "", data, name),
+  })
+);
@@ -1,13 +1,34 @@
 import { cosmiconfig, Options as CosmiconfigOptions } from "cosmiconfig";
 import { extname, basename, join } from "path";
 import chalk from "chalk";
-import commentJson from "comment-json";
-import yaml from "js-yaml";
-import { readFile } from "fs-extra";
+import { readFile, pathExists } from "fs-extra";
+import { createTwoFilesPatch } from "diff";
 import get from "lodash.get";
+import has from "lodash.has";
+import set from "lodash.set";
 import lodashIsEmpty from "lodash.isempty";
+import isEqual from "lodash.isequal";
+import mergeWith from "lodash.mergewith";
+import cloneDeep from "clone-deep";
 import type DataFile from "./data-file";
-import { PredicateFunction, DataPath, FileFormat, ValueFunction, Key, Logger } from "./types";
+import { evaluateJs, createJs } from "./js-config";
+import { joinPath, splitPath } from "./path";
+import { getFormat, getFormatFromFileName, getFileNameFormats, getFormatReport, detectFormat } from "./format";
+import {
+  PredicateFunction,
+  DataPath,
+  FileFormat,
+  FormatReport,
+  ValueFunction,
+  Key,
+  CosmiconfigLocation,
+  Logger,
+  SaveResult,
+  ArrayMergeStrategy,
+  ItemPredicate,
+  ValueState,
+  JsonPatchOperation,
+} from "./types";
 
 /** @ignore */
 let prettier: any; // eslint-disable-line import/no-mutable-exports
@@ -19,14 +40,30 @@ try {
 
 export { prettier };
 
-/** @ignore */
-export const supportedFileExtensions: Record<string, FileFormat> = {
-  json: "json",
-  yaml: "yaml",
-  yml: "yaml",
-  js: "js",
-  "": "",
-};
+/**
+ * Returns given string or array path as a string. Keys containing special characters are quoted in brackets,
+ * so the result can be converted back with [[getArrayPath]]. (e.g. `exports["./lib"].import`)
+ *
+ * @ignore
+ * @param path is the path to return as a string.
+ * @returns stringified path.
+ */
+export function getStringPath(path: DataPath): Key {
+  return Array.isArray(path) ? joinPath(path) : path;
+}
+
+/**
+ * Returns given string or array path as an array. String paths are split on dots, and bracketed segments are used for
+ * array indexes (`files[0]`) and quoted keys (`exports["./lib"].import`).
+ *
+ * @ignore
+ * @param path is the path to return as an array.
+ * @returns arrified path.
+ */
+export function getArrayPath(path: DataPath): Key[] {
+  if (Array.isArray(path)) return path;
+  return typeof path === "string" ? splitPath(path) : [path];
+}
 
 /**
  * Returns given string after making it's first letter uppercase.
@@ -48,35 +85,84 @@ export function arrify<T>(input: T | T[]): T[] {
 }
 
 /**
- * Parses given string and returns format and object. If no format given, tries to parse first as json using JSON5, then yaml.
+ * Parses given content using the given format.
+ *
+ * @ignore
+ * @returns parsed data and whether it is a multi-document YAML.
+ * @throws if content cannot be parsed or format is not registered.
+ */
+function parseAs(format: FileFormat, content: string, path: string): { data: any; multiDocument?: boolean } {
+  const definition = getFormat(format);
+  if (definition === undefined) throw new Error(`Unknown format: '${format}'.`);
+  if (definition.parseAll === undefined) return { data: definition.parse(content, path) };
+  const documents = definition.parseAll(content, path);
+  const multiDocument = documents.length > 1;
+  return { data: multiDocument ? documents : documents[0], multiDocument };
+}
+
+/**
+ * Parses given string and returns format and object, and a report of how the format is determined.
+ * Format given by the `format` option is used directly. Otherwise the formats determined from the file name are tried in order
+ * (e.g. `json` and then `yaml` for `.prettierrc`). `json` and `yaml` files, and files without extension are tried as `json`,
+ * `yaml` and `toml`, unless `detect` function of a registered format detects the content. Results which are strings are skipped,
+ * because most of the text (e.g. toml `key = value` content or a JSON typo) is also a valid YAML string scalar.
+ * YAML content with more than one document is returned as an array of the documents.
  *
  * @ignore
  * @param content is string to parse
+ * @param path is the path of the file.
  * @param rootDataPath is the path to return data from.
- * @returns parsed object or input string.
+ * @param format is the format forced by the `format` option.
+ * @returns parsed object or input string, format report and whether it is a multi-document YAML.
  * @throws `Error` if data cannot be parsed.
  * @example
- * parseString('{"a": { "b": {"c": 1} } }', "a.b"); // Parses and returns "a.b" path: { c: 1 }
+ * parseString('{"a": { "b": {"c": 1} } }', "config", "a.b"); // Parses and returns "a.b" path: { c: 1 }
  */
-function parseString(content: string, rootDataPath?: DataPath): { format: FileFormat; data: object } {
-  const errors: Error[] = [];
-
-  try {
-    const data = commentJson.parse(content);
-    return { format: "json", data: rootDataPath ? get(data, rootDataPath as any) : data };
-  } catch (error) {
-    errors.push(error);
-  }
+export function parseString(
+  content: string,
+  path: string,
+  rootDataPath?: DataPath,
+  format?: FileFormat
+): { format: FileFormat; data: any; multiDocument?: boolean; formatReport: FormatReport } {
+  const fromName = format ? undefined : getFileNameFormats(path);
+  const detected = fromName?.formats.length === 0 ? detectFormat(content) : undefined;
+  let candidates: FileFormat[] = fromName?.formats ?? [format as FileFormat];
+  let reason = fromName?.reason ?? `'format' option is '${format}'`;
+  if (detected) [candidates, reason] = [[detected.name], `${reason}, content is detected by '${detected.name}' format`];
+  else if (fromName && fromName.source !== "file-name" && (candidates.length === 0 || ["json", "yaml"].includes(candidates[0])))
+    candidates = ["json", "yaml", "toml"];
 
-  try {
-    const data = yaml.safeLoad(content);
-    return { format: "yaml", data: rootDataPath ? get(data, rootDataPath as any) : data };
-  } catch (error) {
-    errors.push(error);
+  const errors: string[] = [];
+  let stringResult: { format: FileFormat; data: any } | undefined;
+  for (let index = 0; index < candidates.length; index += 1) {
+    try {
+      const result = parseAs(candidates[index], content, path);
+      if (typeof result.data !== "string") {
+        const failed = errors.length > 0 ? ` after ${errors.join(", ")}` : "";
+        const source = fromName ? (fromName.formats.includes(candidates[index]) && fromName.source) || "content" : "option";
+        const formatReport: FormatReport = {
+          format: candidates[index],
+          source,
+          reason: `${reason}. Parsed as '${candidates[index]}'${failed}.`,
+        };
+        return {
+          ...result,
+          format: candidates[index],
+          data: rootDataPath ? get(result.data, getArrayPath(rootDataPath) as any) : result.data,
+          formatReport,
+        };
+      }
+      stringResult = stringResult ?? { format: candidates[index], data: result.data };
+      errors.push(`'${candidates[index]}' failed: content is a string`);
+    } catch (error) {
+      errors.push(`'${candidates[index]}' failed: ${error.message}`);
+    }
   }
 
-  const errorMessage = errors.reduce((previous, e) => `${previous}${e.name}: ${e.message}. `, "").trim();
-  throw new Error(`Cannot parse data. Supported formats are "json" and "yaml". ${errorMessage}`);
+  const formatReport: FormatReport = { format: stringResult?.format ?? "", source: "content", reason: `${reason}. ${errors.join(", ")}.` };
+  if (stringResult) return { ...stringResult, formatReport };
+  const formatList = candidates.map((name) => `"${name}"`).join(candidates.length > 2 ? ", " : " or ");
+  throw new Error(`Cannot parse data as ${formatList}. ${formatReport.reason}`);
 }
 
 /**
@@ -87,7 +173,7 @@ function parseString(content: string, rootDataPath?: DataPath): { format: FileFo
  * @returns the content of the file or undefined if no file exists.
  * @throws error other than `ENOENT`.
  */
-async function readFileTolerated(path: string): Promise<string | undefined> {
+export async function readFileTolerated(path: string): Promise<string | undefined> {
   try {
     const content = await readFile(path, { encoding: "utf-8" }); // Do not combine return single line to let catch block run.
     return content;
@@ -98,17 +184,20 @@ async function readFileTolerated(path: string): Promise<string | undefined> {
 }
 
 /**
- * Determines file format from file name.
+ * Returns data exported from JavaScript/TypeScript file. `.js` and `.cjs` files are imported, so computed values are available.
+ * `.mjs` and `.ts` files, which cannot be imported, are evaluated statically and computed values are `undefined`.
  *
  * @ignore
- * @param path is the path of the file
- * @returns file format.
+ * @param path is the path of the file.
+ * @param content is the content of the file.
+ * @returns exported data.
  */
-export function getFormatFromFileName(path: string): FileFormat {
-  const fileExtension = extname(path).substring(1).toLowerCase();
-  const formatFromFileName = supportedFileExtensions[fileExtension as keyof typeof supportedFileExtensions];
-  if (formatFromFileName === undefined) throw new Error(`Unsupported file type: ${fileExtension}`);
-  return formatFromFileName;
+async function readJsData(path: string, content: string): Promise<any> {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".mjs" || extension === ".ts") return evaluateJs(content, path) ?? {};
+  if (typeof require !== "undefined") delete require.cache[path]; // Import again if file is changed.
+  const imported = await import(path);
+  return imported.default ?? imported;
 }
 
 /**
@@ -119,92 +208,132 @@ export function getFormatFromFileName(path: string): FileFormat {
  * @param defaultFormat Default data to be used if file does not exist.
  * @param defaultData Default data to be used if file does not exist.
  * @param rootDataPath is the path to return data from.
- * @returns data and format.
+ * @param format is the format forced by the `format` option.
+ * @returns data, format, raw content of the file, whether it is a multi-document YAML and how the format is determined for existing files.
  * @throws if file cannot be parsed, content is empty, number or string.
  */
 export async function readData(
   path: string,
   defaultData: object,
-  rootDataPath?: DataPath
-): Promise<{ format: FileFormat; data: any; found: boolean }> {
-  const formatFromFileName = getFormatFromFileName(path);
+  rootDataPath?: DataPath,
+  format?: FileFormat
+): Promise<{ format: FileFormat; data: any; found: boolean; content?: string; multiDocument?: boolean; formatReport?: FormatReport }> {
+  const formatFromFileName = format || getFormatFromFileName(path);
+
+  const content = await readFileTolerated(path);
 
   if (formatFromFileName === "js") {
-    const imported = await import(path);
-    return { data: imported.default ?? imported, format: "js", found: true };
+    if (content === undefined) return { data: defaultData, format: "js", found: false };
+    const data = await readJsData(path, content);
+    const formatReport = getFormatReport(path, format);
+    return { data: rootDataPath ? get(data, getArrayPath(rootDataPath) as any) : data, format: "js", found: true, content, formatReport };
   }
-  const content = await readFileTolerated(path);
 
-  const result = content === undefined ? { data: defaultData, format: formatFromFileName } : parseString(content, rootDataPath);
+  const result =
+    content === undefined ? { data: defaultData, format: formatFromFileName } : parseString(content, path, rootDataPath, format);
 
   if (result.data instanceof Number || typeof result.data === "number" || typeof result.data === "string" || result.data === undefined)
     throw new Error(`File content must be an object: '${path}'.`);
 
-  return { ...result, found: content !== undefined };
+  return { ...result, found: content !== undefined, content };
 }
 
 /**
- * Returns given string or array path as a string.
- *
- * @ignore
- * @param path is the path to return as a string.
- * @returns stringified path.
- */
-export function getStringPath(path: DataPath): Key {
-  return Array.isArray(path) ? path.join(".") : path;
-}
-
-/**
- * Returns given string or array path as a string.
+ * Joins given data paths (array or string) and returns as a string.
  *
  * @ignore
- * @param path is the path to return as an array.
- * @returns arrified path.
+ * @param paths are the paths to join (array or string)
+ * @returns joined path.
  */
-export function getArrayPath(path: DataPath): Key[] {
-  if (Array.isArray(path)) return path;
-  return typeof path === "string" ? path.split(".") : [path];
+function joinPaths(...paths: Array<DataPath>): string {
+  return joinPath(paths.filter(Boolean).reduce((result: Key[], path) => [...result, ...getArrayPath(path as DataPath)], []));
 }
 
 /**
- * Joins given data paths (array or string) and returns as a string.
+ * Returns the path of a cosmiconfig location, and the data path of the configuration for `package.json`.
  *
  * @ignore
- * @param paths are the paths to join (array or string)
- * @returns joined path.
+ * @param module is the module name.
+ * @param location is the location. `{module}` is replaced with the module name.
+ * @param options are options for cosmiconfig.
+ * @param searchFrom is the directory of the location.
+ * @returns path and data path.
+ * @throws if location is not one of the search places, because the configuration would not be found by cosmiconfig.
  */
-function joinPaths(...paths: Array<DataPath>): string {
-  return paths
-    .filter(Boolean)
-    .map((path) => getStringPath(path as DataPath))
-    .join(".");
+export function getCosmiconfigLocation(
+  module: string,
+  location: CosmiconfigLocation,
+  options?: CosmiconfigOptions,
+  searchFrom?: string
+): { path: string; rootDataPath?: DataPath } {
+  // Default search places of cosmiconfig.
+  const searchPlaces = options?.searchPlaces ?? [
+    "package.json",
+    `.${module}rc`,
+    `.${module}rc.json`,
+    `.${module}rc.yaml`,
+    `.${module}rc.yml`,
+    `.${module}rc.js`,
+    `${module}.config.js`,
+  ];
+  const fileName = location.replace(/\{module\}/g, module);
+  if (!searchPlaces.includes(fileName))
+    throw new Error(`Cannot use '${fileName}' for '${module}' configuration: it is not a search place of cosmiconfig.`);
+  const path = join(searchFrom || "", fileName);
+  return fileName === "package.json" ? { path, rootDataPath: options?.packageProp || module } : { path };
 }
 
 /**
- * Returns `rootDataPath` and `path` of file for cosmiconfig.
+ * Returns `rootDataPath` and `path` of file for cosmiconfig. If configuration is not found, the first of the `createAt` locations is
+ * returned. `package.json` location is skipped if `package.json` does not exist, unless it is the last location.
  *
  * @ignore
  * @param module is the module to load config for.
  * @param config are options for cosmiconfig. See {@link https://www.npmjs.com/package/cosmiconfig#cosmiconfigoptions cosmiconfig options}.
+ * @param createAt are the locations to create configuration at in the order of preference.
  */
 export async function getCosmiconfigResult(
   module: string,
   defaultData: object,
   options?: CosmiconfigOptions,
   searchFrom?: string,
-  rootDataPath?: DataPath
-): Promise<{ format: FileFormat; data: object; path: string; rootDataPath?: DataPath; found: boolean }> {
+  rootDataPath?: DataPath,
+  createAt: CosmiconfigLocation[] = []
+): Promise<{
+  format: FileFormat;
+  data: object;
+  path: string;
+  rootDataPath?: DataPath;
+  found: boolean;
+  content?: string;
+  formatReport?: FormatReport;
+}> {
   const result = await cosmiconfig(module, options).search(searchFrom);
 
   if (result) {
     const packageDataPath = basename(result.filepath) === "package.json" ? options?.packageProp || module : undefined;
     const fullDataPath = joinPaths(packageDataPath, rootDataPath);
-    let format = getFormatFromFileName(result.filepath);
-    if (format === "") format = (await readData(result.filepath, defaultData)).format;
-    const data = (rootDataPath ? get(result.config, rootDataPath as any) : result.config) || defaultData;
-    return { format, data, path: result.filepath, rootDataPath: fullDataPath, found: true };
+    const fromName = getFormatFromFileName(result.filepath);
+    const formatReport = fromName === "" ? (await readData(result.filepath, defaultData)).formatReport : getFormatReport(result.filepath);
+    const format = formatReport?.format ?? fromName;
+    const data = (rootDataPath ? get(result.config, getArrayPath(rootDataPath) as any) : result.config) || defaultData;
+    const content = await readFileTolerated(result.filepath);
+    return { format, data, path: result.filepath, rootDataPath: fullDataPath, found: true, content, formatReport };
   }
-  return { format: "", data: defaultData, path: join(searchFrom || "", `.${module}rc`), rootDataPath, found: false };
+
+  const locations = (createAt.length > 0 ? createAt : [".{module}rc"]).map((location) =>
+    getCosmiconfigLocation(module, location, options, searchFrom)
+  );
+  const exists = await Promise.all(locations.map((location) => location.rootDataPath === undefined || pathExists(location.path)));
+  const location = locations.find((item, index) => exists[index]) ?? locations[locations.length - 1];
+  const format = getFormatFromFileName(location.path);
+  const fullDataPath = joinPaths(location.rootDataPath, rootDataPath) || undefined;
+  // New `js` files are created with an exported object literal, so they can be edited.
+  const content =
+    format === "js"
+      ? createJs(location.path, fullDataPath ? set({}, getArrayPath(fullDataPath) as any, defaultData) : defaultData)
+      : undefined;
+  return { format, data: defaultData, path: location.path, rootDataPath: fullDataPath, found: false, content };
 }
 
 /**
@@ -232,7 +361,9 @@ export function evaluate(valueOrFunction: ValueFunction | any, dataFile: DataFil
   if (path === undefined) return valueOrFunction(dataFile.data, undefined, dataFile.data, undefined, dataFile.data);
   const arrayPath = getArrayPath(path);
   const parentPath = arrayPath.slice(0, -1);
-  return valueOrFunction(dataFile.get(path), arrayPath[arrayPath.length - 1], dataFile.get(parentPath), arrayPath, dataFile);
+  // Raw values are used instead of `dataFile.get()`, so placeholders are not replaced with interpolated values.
+  const value = get(dataFile.data, arrayPath as any);
+  return valueOrFunction(value, arrayPath[arrayPath.length - 1], get(dataFile.data, parentPath as any), arrayPath, dataFile);
 }
 
 /**
@@ -258,8 +389,11 @@ export function predicate(fn: PredicateFunction | undefined, dataFile: DataFile,
  *
  * @ignore
  */
-export function isManipulationOptions(value: any): value is { if?: PredicateFunction } {
-  return typeof value === "object" && Object.prototype.hasOwnProperty.call(value, "if");
+export function isManipulationOptions(value: any): value is { if?: PredicateFunction; arrayMerge?: ArrayMergeStrategy } {
+  return (
+    typeof value === "object" &&
+    (Object.prototype.hasOwnProperty.call(value, "if") || Object.prototype.hasOwnProperty.call(value, "arrayMerge"))
+  );
 }
 
 /**
@@ -272,6 +406,224 @@ export function isEmpty(value: any): boolean {
   return value === undefined || value === null || value === "" || lodashIsEmpty(value);
 }
 
+/**
+ * Returns whether given value is a plain object.
+ *
+ * @ignore
+ */
+export function isObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Returns whether given values are deeply equal including the order of the object keys.
+ *
+ * @ignore
+ */
+export function isIdentical(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((value, index) => isIdentical(value, b[index]));
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return isEqual(keys, Object.keys(b)) && keys.every((key) => isIdentical(a[key], b[key]));
+  }
+  return isEqual(a, b);
+}
+
+/**
+ * Returns index pairs of the longest common subsequence of two arrays using deep equality.
+ *
+ * @ignore
+ */
+export function getCommonSubsequence(a: any[], b: any[]): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = isIdentical(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: Array<[number, number]> = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (isIdentical(a[i], b[j])) {
+      result.push([i, j]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) i += 1;
+    else j += 1;
+  }
+  return result;
+}
+
+/**
+ * Compares content on disk with new content and returns save result including unified diff.
+ *
+ * @ignore
+ * @param path is the path of the file.
+ * @param shortPath is the path of the file to be used in diff header.
+ * @param oldContent is the content on disk or `undefined` if file does not exist.
+ * @param newContent is the content to be written.
+ * @returns save result.
+ */
+export function getSaveResult(path: string, shortPath: string, oldContent: string | undefined, newContent: string): SaveResult {
+  if (oldContent === newContent) return { path, status: "unchanged", diff: "" };
+  const diff = createTwoFilesPatch(oldContent === undefined ? "/dev/null" : shortPath, shortPath, oldContent ?? "", newContent);
+  return { path, status: oldContent === undefined ? "created" : "changed", diff };
+}
+
+/**
+ * Returns value at given path. Empty string path returns the data itself.
+ *
+ * @ignore
+ */
+export function getValue(data: any, path: string): any {
+  return path === "" ? data : get(data, getArrayPath(path) as any);
+}
+
+/**
+ * Returns data paths of the values which are different in given values as arrays of keys. Changes in the order of the keys are
+ * reported for the object.
+ *
+ * @ignore
+ * @param a is the value to compare.
+ * @param b is the other value to compare.
+ * @param path is the data path of the values.
+ * @returns changed data paths.
+ */
+export function getChangedKeyPaths(a: any, b: any, path: Key[] = []): Key[][] {
+  if (isIdentical(a, b)) return [];
+  if (isObject(a) && isObject(b)) {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    const changed = keys.reduce((result, key) => [...result, ...getChangedKeyPaths(a[key], b[key], [...path, key])], [] as Key[][]);
+    if (changed.length > 0) return changed;
+  }
+  return [path];
+}
+
+/**
+ * Returns data paths of the values which are different in given values. Changes in the order of the keys are reported for the object.
+ *
+ * @ignore
+ * @param a is the value to compare.
+ * @param b is the other value to compare.
+ * @param path is the data path of the values.
+ * @returns changed data paths.
+ */
+export function getChangedPaths(a: any, b: any, path: Key[] = []): string[] {
+  return getChangedKeyPaths(a, b, path).map((changedPath) => joinPath(changedPath));
+}
+
+/**
+ * Converts data path to JSON Pointer.
+ *
+ * @ignore
+ */
+export function toJsonPointer(path: Key[]): string {
+  return path.map((key) => `/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+/**
+ * Converts JSON Pointer to data path. Keys are returned as strings.
+ *
+ * @ignore
+ * @throws if pointer is not valid.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new Error(`Invalid JSON Pointer: '${pointer}'.`);
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Returns data path of a JSON Patch path, which may be a JSON Pointer (starts with `/`, or empty string for the root) or a dot separated data path.
+ *
+ * @ignore
+ */
+export function getPatchPath(path: DataPath): Key[] {
+  if (typeof path === "string" && (path === "" || path.startsWith("/"))) return parseJsonPointer(path);
+  return [...getArrayPath(path)];
+}
+
+/**
+ * Returns JSON Patch operations which convert the value at `path` from one state to another. Objects are compared recursively,
+ * so only changed keys are included in the patch.
+ *
+ * @ignore
+ * @param path is the data path of the value.
+ * @param from is the state to convert from.
+ * @param to is the state to convert to.
+ * @returns JSON Patch operations.
+ */
+export function getPatchOperations(path: Key[], from: ValueState, to: ValueState): JsonPatchOperation[] {
+  if (!from.exists && !to.exists) return [];
+  if (!from.exists) return [{ op: "add", path: toJsonPointer(path), value: cloneDeep(to.value) }];
+  if (!to.exists) return [{ op: "remove", path: toJsonPointer(path) }];
+
+  return getChangedKeyPaths(from.value, to.value).map(
+    (changedPath): JsonPatchOperation => {
+      const pointer = toJsonPointer([...path, ...changedPath]);
+      const fromHas = changedPath.length === 0 || has(from.value, changedPath as string[]);
+      const toHas = changedPath.length === 0 || has(to.value, changedPath as string[]);
+      const value = changedPath.length === 0 ? to.value : get(to.value, changedPath as string[]);
+      if (!toHas) return { op: "remove", path: pointer };
+      return { op: fromHas ? "replace" : "add", path: pointer, value: cloneDeep(value) };
+    }
+  );
+}
+
+/**
+ * Tests whether given item matches given value or predicate. Values are compared deeply.
+ *
+ * @ignore
+ */
+export function matchesItem(matcher: any | ItemPredicate, item: any, index: number, array: any[]): boolean {
+  return typeof matcher === "function" ? matcher(item, index, array) : isEqual(matcher, item);
+}
+
+/**
+ * Returns copies of given items. If `unique` is true, items which already exist in the array or duplicated in given items are skipped.
+ *
+ * @ignore
+ */
+export function getNewItems(array: any[], items: any[], unique?: boolean): any[] {
+  if (!unique) return cloneDeep(items);
+  const isNew = (item: any, index: number): boolean =>
+    !array.some((existing) => isEqual(existing, item)) && items.findIndex((other) => isEqual(other, item)) === index;
+  return cloneDeep(items.filter(isNew));
+}
+
+/**
+ * Returns a `lodash.mergewith` customizer which merges arrays using given strategy. Arrays are modified in place to keep their comments.
+ *
+ * @ignore
+ * @param strategy is the array merge strategy.
+ * @returns customizer function.
+ */
+export function getArrayMergeCustomizer(strategy: ArrayMergeStrategy = "merge"): (target: any, source: any) => any {
+  const customizer = (target: any, source: any): any => {
+    if (strategy === "merge" || !Array.isArray(target) || !Array.isArray(source)) return undefined;
+    if (strategy === "replace") return cloneDeep(source);
+    if (strategy === "concat") {
+      target.push(...cloneDeep(source));
+      return target;
+    }
+
+    const getKey = typeof strategy === "object" ? strategy.unionBy : undefined;
+    const keyOf = (item: any): any => (typeof getKey === "function" ? getKey(item) : get(item, getKey as string));
+    source.forEach((item) => {
+      const key = getKey ? keyOf(item) : undefined; // Items without key are merged using `union` strategy.
+      const index = key === undefined ? -1 : target.findIndex((targetItem) => isEqual(keyOf(targetItem), key));
+      if (index > -1 && isObject(target[index]) && isObject(item)) mergeWith(target[index], item, customizer);
+      else if (index > -1) target.splice(index, 1, cloneDeep(item));
+      else if (key !== undefined || !target.some((targetItem) => isEqual(targetItem, item))) target.push(cloneDeep(item));
+    });
+    return target;
+  };
+  return customizer;
+}
+
 /**
  * To disable logging, use this logger.
  * @ignore
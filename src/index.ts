@@ -1,5 +1,9 @@
 export { default as Manager } from "./manager";
 export { default as DataFile } from "./data-file";
+export { default as ConfigChain } from "./config-chain";
+export { ConflictError, InterpolationError } from "./errors";
+export { registerFormat, unregisterFormat, getFormat, getFormats } from "./format";
+export { default as cli } from "./cli";
 
 export {
   FileFormat,
@@ -13,6 +17,51 @@ export {
   DataFileLoadOptions,
   Logger,
   LogLevel,
+  SaveStatus,
+  SaveResult,
+  SaveAllResult,
+  ValidationError,
+  ArrayMergeStrategy,
+  ItemPredicate,
+  FileChangeEvent,
+  ManagerEvents,
+  ConflictStrategy,
+  HistoryEntry,
+  ValueState,
+  JsonPatchOperation,
+  Recipe,
+  RecipeFile,
+  RecipeOperation,
+  RecipeCondition,
+  RecipeReport,
+  RecipeOperationResult,
+  TypedDataPath,
+  PathValue,
+  ManagerGlobOptions,
+  EditStatus,
+  EditResult,
+  InterpolationOptions,
+  ManagerExtendsOptions,
+  FormatDefinition,
+  FormatReport,
+  StringifyContext,
+  ConvertOptions,
+  CosmiconfigLocation,
+  CosmiconfigLoadOptions,
 } from "./types";
 
+export {
+  PackageJson,
+  PackageJsonPerson,
+  PackageJsonDependencies,
+  TsConfig,
+  TsConfigCompilerOptions,
+  EslintConfig,
+  EslintRuleLevel,
+  EslintRuleEntry,
+  PrettierRc,
+  BabelConfig,
+  BabelPluginEntry,
+} from "./config-types";
+
 export { Options as CosmiconfigOptions } from "cosmiconfig";
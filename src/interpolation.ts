@@ -0,0 +1,77 @@
+import get from "lodash.get";
+import has from "lodash.has";
+import { InterpolationError } from "./errors";
+import { getArrayPath, getStringPath, isObject } from "./helper";
+import { InterpolationOptions } from "./types";
+
+/** Placeholder pattern. First group is `$` for escaped placeholders. (e.g. `$${env.CI}`) */
+const PLACEHOLDER = /(\$?)\$\{([^}]*)\}/g;
+
+/** @ignore */
+interface InterpolationSource {
+  path: string;
+  data: any;
+}
+
+/**
+ * Returns value of given placeholder reference.
+ *
+ * @ignore
+ * @param reference is the reference in the placeholder. (e.g. `env.CI`, `scripts.build` or `package.json:version`)
+ * @param source is the file containing the placeholder.
+ * @param options are interpolation options.
+ * @param stack are the references being resolved, used to detect circular references.
+ * @returns resolved value.
+ * @throws InterpolationError if reference cannot be resolved or it is circular.
+ */
+function resolveReference(reference: string, source: InterpolationSource, options: InterpolationOptions, stack: string[]): any {
+  const fail = (reason: string): InterpolationError =>
+    new InterpolationError(`Cannot resolve '\${${reference}}' in '${source.path}': ${reason}.`, source.path, reference);
+
+  if (reference.startsWith("env.")) {
+    const name = reference.slice(4);
+    const value = (options.env ?? process.env)[name];
+    if (value === undefined) throw fail(`environment variable '${name}' is not defined`);
+    return value;
+  }
+
+  const separator = reference.indexOf(":");
+  const filePath = separator === -1 ? undefined : reference.slice(0, separator);
+  const target = filePath === undefined ? source : options.getFile?.(filePath);
+  if (target === undefined) throw fail(`file '${filePath}' is not loaded`);
+
+  const keys = getArrayPath(separator === -1 ? reference : reference.slice(separator + 1));
+  const id = `${target.path}:${getStringPath(keys)}`;
+  if (stack.includes(id)) throw fail(`circular reference ${[...stack, id].join(" -> ")}`);
+  if (!has(target.data, keys as any)) throw fail(`key '${getStringPath(keys)}' does not exist in '${target.path}'`);
+  // eslint-disable-next-line no-use-before-define
+  return interpolate(get(target.data, keys as any), target, options, [...stack, id]);
+}
+
+/**
+ * Returns a copy of given value with placeholders resolved. If a string consists of a single placeholder, referenced value is
+ * returned as is (e.g. a number or an object), otherwise referenced values are converted to strings.
+ *
+ * @ignore
+ * @param value is the value to interpolate.
+ * @param source is the file containing the value.
+ * @param options are interpolation options.
+ * @param stack are the references being resolved. Starts with the path of the value to detect values referencing themselves.
+ * @returns interpolated value.
+ * @throws InterpolationError if a placeholder cannot be resolved or references are circular.
+ */
+export function interpolate(value: any, source: InterpolationSource, options: InterpolationOptions, stack: string[] = []): any {
+  if (Array.isArray(value)) return value.map((item) => interpolate(item, source, options, stack));
+  if (isObject(value)) {
+    return Object.keys(value).reduce((result, key) => ({ ...result, [key]: interpolate(value[key], source, options, stack) }), {});
+  }
+  if (typeof value !== "string") return value;
+
+  const single = value.match(/^\$\{([^}]*)\}$/);
+  if (single) return resolveReference(single[1].trim(), source, options, stack);
+  return value.replace(PLACEHOLDER, (placeholder, escape, reference) => {
+    if (escape) return placeholder.slice(1);
+    const resolved = resolveReference(reference.trim(), source, options, stack);
+    return typeof resolved === "object" && resolved !== null ? JSON.stringify(resolved) : String(resolved);
+  });
+}
@@ -0,0 +1,528 @@
+import { extname } from "path";
+import { parse, print, types } from "recast";
+import * as babelParser from "recast/parsers/babel";
+import * as typescriptParser from "recast/parsers/typescript";
+import isEqual from "lodash.isequal";
+import { isObject, isIdentical, getCommonSubsequence, getArrayPath, getStringPath } from "./helper";
+import { DataPath, Key } from "./types";
+
+const { builders: b, namedTypes: n } = types;
+
+/** @ignore */
+const WRAPPER_TYPES = [
+  "TSAsExpression",
+  "TSSatisfiesExpression",
+  "TSTypeAssertion",
+  "TSNonNullExpression",
+  "ParenthesizedExpression",
+  "TypeCastExpression",
+];
+
+/**
+ * Returns AST parser for the given file path. TypeScript parser is used for `.ts` files, babel parser is used for others.
+ *
+ * @ignore
+ */
+function getParser(path: string): { parse: (source: string) => any } {
+  return extname(path).toLowerCase() === ".ts" ? typescriptParser : babelParser;
+}
+
+/**
+ * Removes type assertions and parentheses around the expression. (e.g. `{ a: 1 } as Config`)
+ *
+ * @ignore
+ */
+function unwrap(node: any): any {
+  let result = node;
+  while (result && WRAPPER_TYPES.includes(result.type)) result = result.expression;
+  return result;
+}
+
+/**
+ * Returns whether node is `module.exports`.
+ *
+ * @ignore
+ */
+function isModuleExports(node: any): boolean {
+  return n.MemberExpression.check(node) && (node.object as any).name === "module" && (node.property as any).name === "exports";
+}
+
+/**
+ * Returns key name of the object property or `undefined` if key is computed.
+ *
+ * @ignore
+ */
+function getKeyName(property: any): string | undefined {
+  if (property.computed || !property.key) return undefined;
+  if (n.Identifier.check(property.key)) return property.key.name;
+  return ["StringLiteral", "NumericLiteral", "Literal"].includes(property.key.type) ? String(property.key.value) : undefined;
+}
+
+/**
+ * Returns whether given property is a plain `key: value` property, which can be edited.
+ *
+ * @ignore
+ */
+function isPlainProperty(property: any): boolean {
+  return ["ObjectProperty", "Property"].includes(property.type) && property.kind !== "get" && property.kind !== "set" && !property.method;
+}
+
+/**
+ * Finds the exported object literal in the program. Supports `module.exports = {}`, `export default {}`,
+ * exported variables (`const config = {}; module.exports = config;`) and wrapper calls (`export default defineConfig({})`).
+ *
+ * @ignore
+ */
+function findConfigObject(program: any): any {
+  let exported: any;
+
+  program.body.forEach((statement: any) => {
+    if (n.ExportDefaultDeclaration.check(statement)) exported = statement.declaration;
+    else if (n.ExpressionStatement.check(statement) && n.AssignmentExpression.check(statement.expression)) {
+      if (isModuleExports(statement.expression.left)) exported = statement.expression.right;
+    }
+  });
+
+  exported = unwrap(exported);
+
+  if (n.Identifier.check(exported)) {
+    const { name } = exported;
+    const declarator = program.body
+      .filter((statement: any) => n.VariableDeclaration.check(statement))
+      .reduce((declarations: any[], statement: any) => [...declarations, ...statement.declarations], [])
+      .find((declaration: any) => n.Identifier.check(declaration.id) && declaration.id.name === name);
+    exported = unwrap(declarator?.init);
+  }
+
+  if (n.CallExpression.check(exported) && exported.arguments.length === 1) exported = unwrap(exported.arguments[0]);
+  return n.ObjectExpression.check(exported) ? exported : undefined;
+}
+
+/**
+ * Returns the value of the literal node. Values of the nodes which cannot be determined statically (computed values) are `undefined`.
+ *
+ * @ignore
+ */
+function evaluateNode(node: any): any {
+  const unwrapped = unwrap(node);
+  if (!unwrapped) return undefined;
+
+  switch (unwrapped.type) {
+    case "ObjectExpression":
+      return unwrapped.properties.reduce((result: Record<string, any>, property: any) => {
+        const key = isPlainProperty(property) ? getKeyName(property) : undefined;
+        if (key !== undefined) result[key] = evaluateNode(property.value); // eslint-disable-line no-param-reassign
+        return result;
+      }, {});
+    case "ArrayExpression":
+      return unwrapped.elements.map((element: any) => evaluateNode(element));
+    case "StringLiteral":
+    case "NumericLiteral":
+    case "BooleanLiteral":
+    case "Literal":
+      return unwrapped.value;
+    case "NullLiteral":
+      return null;
+    case "TemplateLiteral":
+      return unwrapped.expressions.length === 0 ? unwrapped.quasis[0].value.cooked : undefined;
+    case "UnaryExpression":
+      return unwrapped.operator === "-" && typeof evaluateNode(unwrapped.argument) === "number"
+        ? -evaluateNode(unwrapped.argument)
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns whether given node is a literal value, which can be safely replaced.
+ *
+ * @ignore
+ */
+function isLiteralNode(node: any): boolean {
+  const unwrapped = unwrap(node);
+  if (!unwrapped) return true;
+  if (["StringLiteral", "NumericLiteral", "BooleanLiteral", "NullLiteral", "Literal"].includes(unwrapped.type)) return true;
+  if (n.TemplateLiteral.check(unwrapped)) return unwrapped.expressions.length === 0;
+  if (n.UnaryExpression.check(unwrapped)) return unwrapped.operator === "-" && isLiteralNode(unwrapped.argument);
+  return n.Identifier.check(unwrapped) && unwrapped.name === "undefined";
+}
+
+/**
+ * Creates AST node for given value.
+ *
+ * @ignore
+ */
+function createNode(value: any): any {
+  if (value === undefined) return b.identifier("undefined");
+  if (value instanceof Date) return b.literal(value.toISOString());
+  if (Array.isArray(value)) return b.arrayExpression(value.map(createNode));
+  if (isObject(value)) return b.objectExpression(Object.entries(value).map(([key, item]) => createProperty(key, item))); // eslint-disable-line no-use-before-define
+  if (typeof value === "number" && value < 0) return b.unaryExpression("-", b.literal(-value));
+  return b.literal(value);
+}
+
+/**
+ * Creates AST node of an object property for given key and value.
+ *
+ * @ignore
+ */
+function createProperty(key: string, value: any): any {
+  const keyNode = /^[A-Za-z_$][\w$]*$/.test(key) ? b.identifier(key) : b.literal(key);
+  return b.property("init", keyNode, createNode(value));
+}
+
+/**
+ * Returns error to be thrown when a computed value is tried to be modified.
+ *
+ * @ignore
+ */
+function computedError(path: string, dataPath: Key[]): Error {
+  return new Error(`Cannot modify computed value at '${getStringPath(dataPath)}' in '${path}'. Only literal values can be edited.`);
+}
+
+/**
+ * Keys to add to and remove from an object literal. They are applied to the printed source as text by [[applyPropertyEdits]],
+ * because recast prints the whole object literal again if its properties are added or removed, which moves comments.
+ *
+ * @ignore
+ */
+interface PropertyEdit {
+  /** Data path of the object literal. */
+  dataPath: Key[];
+  /** Keys and values of the properties to add to the end of the object. */
+  add: Array<[string, any]>;
+  /** Keys of the properties to remove. */
+  remove: string[];
+}
+
+/** @ignore */
+interface PatchContext {
+  /** Path of the file used in error messages. */
+  path: string;
+  /** Source code given to the parser. Recast expands tabs used for indentation before parsing. */
+  content: string;
+  /** Property edits to apply after the source is printed. */
+  edits: PropertyEdit[];
+}
+
+/**
+ * Returns the offset of the beginning of the line which contains given offset.
+ *
+ * @ignore
+ */
+function getLineStart(content: string, offset: number): number {
+  return content.lastIndexOf("\n", offset - 1) + 1;
+}
+
+/**
+ * Returns whether there is a line break between given offsets.
+ *
+ * @ignore
+ */
+function hasLineBreak(content: string, start: number, end: number): boolean {
+  return content.slice(start, end).includes("\n");
+}
+
+/**
+ * Returns whether each property of the multi-line object literal starts on its own line and ends before the next one starts,
+ * so properties can be added and removed line by line. Offsets are used, because recast removes locations of some objects.
+ * (e.g. `export default {}`)
+ *
+ * @ignore
+ */
+function hasOwnLineProperties(content: string, node: any): boolean {
+  const { properties } = node;
+  if (properties.length === 0 || !hasLineBreak(content, node.start, node.end)) return false;
+  return properties.every((property: any, index: number) => {
+    const previousEnd = index > 0 ? properties[index - 1].end : node.start;
+    const nextStart = index < properties.length - 1 ? properties[index + 1].start : node.end;
+    return (
+      content.slice(getLineStart(content, property.start), property.start).trim() === "" &&
+      hasLineBreak(content, previousEnd, property.start) &&
+      hasLineBreak(content, property.end, nextStart)
+    );
+  });
+}
+
+/**
+ * Updates properties of the object literal node according to the changes between old and new values.
+ *
+ * @ignore
+ */
+function patchObject(
+  context: PatchContext,
+  node: any,
+  oldValue: Record<string, any>,
+  newValue: Record<string, any>,
+  dataPath: Key[]
+): void {
+  const ownProperties = node.properties.filter((property: any) => isPlainProperty(property) && getKeyName(property) !== undefined);
+  const ownKeys: string[] = ownProperties.map(getKeyName);
+  const otherKeys = Object.keys(oldValue).filter((key) => !ownKeys.includes(key));
+  const newKeys = Object.keys(newValue).filter((key) => !ownKeys.includes(key) && !otherKeys.includes(key));
+  const removedKeys = ownKeys.filter((key) => !Object.prototype.hasOwnProperty.call(newValue, key));
+  const keys = Object.keys(newValue).filter((key) => ownKeys.includes(key) || newKeys.includes(key));
+
+  // Keys which are not own properties come from spread elements or computed keys and cannot be edited.
+  otherKeys.forEach((key) => {
+    if (!isEqual(oldValue[key], newValue[key])) throw computedError(context.path, [...dataPath, key]);
+  });
+
+  // Properties added to the end or removed are edited as text to keep formatting and comments of the other properties.
+  const keptKeys = ownKeys.filter((key) => !removedKeys.includes(key));
+  const editAsText =
+    newKeys.length + removedKeys.length > 0 &&
+    keptKeys.length > 0 &&
+    isEqual(keys, [...keptKeys, ...newKeys]) &&
+    hasOwnLineProperties(context.content, node);
+  if (editAsText) context.edits.push({ dataPath, add: newKeys.map((key) => [key, newValue[key]]), remove: removedKeys });
+
+  ownProperties.forEach((property: any) => {
+    const key = getKeyName(property) as string;
+    if (!Object.prototype.hasOwnProperty.call(newValue, key)) {
+      if (!editAsText) node.properties.splice(node.properties.indexOf(property), 1);
+    } else if (!isIdentical(oldValue[key], newValue[key])) {
+      property.value = patchNode(context, property.value, oldValue[key], newValue[key], [...dataPath, key]); // eslint-disable-line no-param-reassign, no-use-before-define
+    }
+  });
+
+  if (editAsText) return;
+  newKeys.forEach((key) => node.properties.push(createProperty(key, newValue[key])));
+
+  // Reorder properties if order of the keys are changed. (e.g. `sortKeys()`)
+  const currentKeys = node.properties
+    .map((property: any) => (isPlainProperty(property) ? getKeyName(property) : undefined))
+    .filter(Boolean);
+  if (!isEqual(keys, currentKeys)) {
+    const sorted = keys.map((key) => node.properties.find((property: any) => isPlainProperty(property) && getKeyName(property) === key));
+    node.properties.forEach((property: any, index: number) => {
+      if (!isPlainProperty(property) || getKeyName(property) === undefined) sorted.splice(index, 0, property);
+    });
+    node.properties = sorted; // eslint-disable-line no-param-reassign
+  }
+}
+
+/**
+ * Updates elements of the array literal node according to the changes between old and new values.
+ * Elements are matched using longest common subsequence, so that inserted and removed elements do not cause other elements to be printed again.
+ *
+ * @ignore
+ */
+function patchArray(context: PatchContext, node: any, oldValue: any[], newValue: any[], dataPath: Key[]): void {
+  if (node.elements.some((element: any) => n.SpreadElement.check(element))) throw computedError(context.path, dataPath);
+  const elements: any[] = [];
+  const matches = getCommonSubsequence(oldValue, newValue);
+  let [oldCursor, newCursor] = [0, 0];
+
+  [...matches, [oldValue.length, newValue.length]].forEach(([oldIndex, newIndex]) => {
+    for (; newCursor < newIndex; newCursor += 1, oldCursor += 1) {
+      const [element, value, elementPath] = [node.elements[oldCursor], newValue[newCursor], [...dataPath, newCursor]];
+      // eslint-disable-next-line no-use-before-define
+      const patched = oldCursor < oldIndex ? patchNode(context, element, oldValue[oldCursor], value, elementPath) : createNode(value);
+      elements.push(patched);
+    }
+    if (oldIndex < oldValue.length) elements.push(node.elements[oldIndex]);
+    [oldCursor, newCursor] = [oldIndex + 1, newIndex + 1];
+  });
+
+  node.elements = elements; // eslint-disable-line no-param-reassign
+}
+
+/**
+ * Returns the node updated according to the changes between old and new values.
+ *
+ * @ignore
+ * @throws if a computed value is tried to be modified.
+ */
+function patchNode(context: PatchContext, node: any, oldValue: any, newValue: any, dataPath: Key[]): any {
+  if (isIdentical(oldValue, newValue)) return node;
+  const unwrapped = unwrap(node);
+
+  if (n.ObjectExpression.check(unwrapped) && isObject(newValue) && isObject(oldValue)) {
+    patchObject(context, unwrapped, oldValue, newValue, dataPath);
+    return node;
+  }
+
+  if (n.ArrayExpression.check(unwrapped) && Array.isArray(newValue) && Array.isArray(oldValue)) {
+    patchArray(context, unwrapped, oldValue, newValue, dataPath);
+    return node;
+  }
+
+  if (isLiteralNode(node) || n.ObjectExpression.check(unwrapped) || n.ArrayExpression.check(unwrapped)) return createNode(newValue);
+  throw computedError(context.path, dataPath);
+}
+
+/**
+ * Returns the object literal node at the given data path of the exported config object.
+ *
+ * @ignore
+ */
+function getObjectAtPath(path: string, object: any, rootDataPath?: DataPath): any {
+  return getArrayPath(rootDataPath ?? []).reduce((node: any, key, index, arrayPath) => {
+    const property = node.properties.find((item: any) => isPlainProperty(item) && getKeyName(item) === String(key));
+    const value = unwrap(property?.value);
+    if (!n.ObjectExpression.check(value)) throw computedError(path, arrayPath.slice(0, index + 1));
+    return value;
+  }, object);
+}
+
+/**
+ * Returns the node at the given data path of the object literal without type assertions and parentheses. Elements of array
+ * literals are addressed by their indexes.
+ *
+ * @ignore
+ */
+function getNodeAtPath(object: any, dataPath: Key[]): any {
+  return dataPath.reduce((node: any, key) => {
+    if (n.ArrayExpression.check(node)) return unwrap(node.elements[Number(key)]);
+    const property = node?.properties?.find((item: any) => isPlainProperty(item) && getKeyName(item) === String(key));
+    return unwrap(property?.value);
+  }, object);
+}
+
+/**
+ * Adds and removes properties of the object literals as text, so other properties, their comments and blank lines are kept as is.
+ * Properties are added after the last property using its indentation and trailing comma style, and removed with the comments above them.
+ *
+ * @ignore
+ * @param content is the printed source code.
+ * @param path is the path of the file used to select parser.
+ * @param edits are the edits collected while patching the AST.
+ * @param quote is the quote style of the new strings.
+ * @returns updated source code.
+ */
+function applyPropertyEdits(content: string, path: string, edits: PropertyEdit[], quote: "single" | "double"): string {
+  if (edits.length === 0) return content;
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  // Tabs are expanded to a single space, so offsets of the nodes are the offsets in the content.
+  const object = findConfigObject(parse(content, { parser: getParser(path), tabWidth: 1 }).program);
+  const textEdits: Array<{ start: number; end: number; text: string }> = [];
+
+  edits.forEach(({ dataPath, add, remove }) => {
+    const node = getNodeAtPath(object, dataPath);
+    const { properties } = node;
+    const isRemoved = (property: any): boolean => isPlainProperty(property) && remove.includes(getKeyName(property) as string);
+    const last = properties[properties.length - 1];
+    const kept = properties.filter((property: any) => !isRemoved(property));
+    const newLast = kept[kept.length - 1];
+    const trailingComma = /^\s*,/.test(content.slice(last.end));
+
+    // Properties are removed with their lines and the comments on the lines above them.
+    properties.forEach((property: any, index: number) => {
+      if (!isRemoved(property)) return;
+      const previousEnd = index > 0 ? properties[index - 1].end : node.start;
+      const comments = (property.comments ?? []).filter(
+        (comment: any) => comment.leading && comment.start > previousEnd && hasLineBreak(content, previousEnd, comment.start)
+      );
+      let start = getLineStart(content, Math.min(property.start, ...comments.map((comment: any) => comment.start)));
+      // Blank lines before the last property are removed too, so the object does not end with a blank line.
+      const previousLineEnd = content.indexOf("\n", previousEnd) + 1;
+      if (property === last && content.slice(previousLineEnd, start).trim() === "") start = previousLineEnd;
+      textEdits.push({ start, end: content.indexOf("\n", property.end) + 1, text: "" });
+    });
+
+    // Comma after the new last property is added or removed according to the trailing comma style.
+    const comma = content.slice(newLast.end).match(/^\s*,/);
+    if (add.length > 0 && !trailingComma) textEdits.push({ start: newLast.end, end: newLast.end, text: "," });
+    else if (add.length === 0 && !trailingComma && comma) {
+      textEdits.push({ start: newLast.end + comma[0].length - 1, end: newLast.end + comma[0].length, text: "" });
+    }
+
+    // New properties are added after the line of the new last property, which may end with a comment.
+    if (add.length === 0) return;
+    const getIndent = (offset: number): string => (content.slice(getLineStart(content, offset)).match(/^[ \t]*/) as string[])[0];
+    const indent = getIndent(properties[0].start);
+    const tabWidth = indent.includes("\t") ? 4 : Math.max(indent.length - getIndent(node.start).length, 1);
+    const added = add.map(([key, value], index) => {
+      let { code } = print(createProperty(key, value), { quote, tabWidth });
+      // Recast does not use tabs for the indentation of the new nodes.
+      if (indent.includes("\t")) code = code.replace(/^(?: {4})+/gm, (spaces) => "\t".repeat(spaces.length / 4));
+      code = code.split("\n").join(`${eol}${indent}`);
+      return `${eol}${indent}${code}${trailingComma || index < add.length - 1 ? "," : ""}`;
+    });
+    const lineEnd = content.indexOf(eol, newLast.end);
+    textEdits.push({ start: lineEnd, end: lineEnd, text: added.join("") });
+  });
+
+  // Edits are applied from the end, so offsets of the remaining edits do not change. Later edits at the same offset are applied first.
+  return textEdits
+    .map((edit, index) => ({ ...edit, index }))
+    .sort((x, y) => y.start - x.start || y.index - x.index)
+    .reduce((result, { start, end, text }) => `${result.slice(0, start)}${text}${result.slice(end)}`, content);
+}
+
+/**
+ * Returns whether given JavaScript/TypeScript content exports an object literal which can be edited.
+ *
+ * @ignore
+ * @param content is the source code.
+ * @param path is the path of the file used to select parser.
+ */
+export function isEditableJs(content: string, path: string): boolean {
+  try {
+    return findConfigObject(parse(content, { parser: getParser(path) }).program) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns data of the exported object literal by evaluating literal values statically. Computed values are `undefined`.
+ *
+ * @ignore
+ * @param content is the source code.
+ * @param path is the path of the file used to select parser.
+ * @returns exported data or `undefined` if no object literal is exported.
+ */
+export function evaluateJs(content: string, path: string): any {
+  const object = findConfigObject(parse(content, { parser: getParser(path) }).program);
+  return object ? evaluateNode(object) : undefined;
+}
+
+/**
+ * Applies changes in the data to the exported object literal of the JavaScript/TypeScript source.
+ * Formatting and comments of the untouched parts of the source are kept as is.
+ *
+ * @ignore
+ * @param content is the source code.
+ * @param path is the path of the file used to select parser and in error messages.
+ * @param oldData is the data of the source code.
+ * @param data is the new data.
+ * @param rootDataPath is the path of the data in the exported object.
+ * @returns updated source code.
+ * @throws if no object literal is exported or a computed value is tried to be modified.
+ */
+export function patchJs(content: string, path: string, oldData: any, data: any, rootDataPath?: DataPath): string {
+  const parser = getParser(path);
+  let source = content;
+  const ast = parse(content, {
+    parser: {
+      parse: (code: string) => {
+        source = code;
+        return parser.parse(code);
+      },
+    },
+  });
+  const object = findConfigObject(ast.program);
+  if (!object) throw new Error(`Cannot find exported object literal in '${path}'.`);
+
+  const context: PatchContext = { path, content: source, edits: [] };
+  patchObject(context, getObjectAtPath(path, object, rootDataPath), oldData, data, getArrayPath(rootDataPath ?? []));
+  const quote = (content.match(/'/g) || []).length > (content.match(/"/g) || []).length ? "single" : "double";
+  return applyPropertyEdits(print(ast, { quote }).code, path, context.edits, quote);
+}
+
+/**
+ * Returns source code of a new JavaScript/TypeScript file exporting given data as an object literal, so the file can be edited by
+ * [[patchJs]]. ES modules (`.mjs` and `.ts`) use `export default`, others use `module.exports`.
+ *
+ * @ignore
+ * @param path is the path of the file used to select export style.
+ * @param data is the data to export.
+ * @returns source code.
+ */
+export function createJs(path: string, data: any): string {
+  const content = [".mjs", ".ts"].includes(extname(path).toLowerCase()) ? "export default {};\n" : "module.exports = {};\n";
+  return patchJs(content, path, {}, data);
+}
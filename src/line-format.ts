@@ -0,0 +1,284 @@
+import isEqual from "lodash.isequal";
+
+/** @ignore */
+export type LineFormat = "ini" | "env" | "properties";
+
+/** @ignore */
+interface Line {
+  /** Raw text of the line. Continued lines of `.properties` files are joined with the new line character. */
+  text: string;
+  /** Section the line belongs to. `undefined` for lines before the first section and for non `ini` files. */
+  section?: string;
+  /** Whether line is a section header. (e.g. `[*.md]`) */
+  header?: boolean;
+  /** Key of the entry. `undefined` for comments, blank lines and section headers. */
+  key?: string;
+  /** Unescaped value of the entry. */
+  value?: string;
+  /** Whether entry is an item of an `ini` array. (e.g. `key[] = value`) */
+  array?: boolean;
+  /** Text before the value including indentation, key and separator. Used to rewrite the value in the same style. */
+  prefix?: string;
+  /** Text after the value. (e.g. ` # comment` in `.env` files) */
+  suffix?: string;
+}
+
+/** @ignore */
+const DEFAULT_SEPARATORS: Record<LineFormat, string> = { ini: " = ", env: "=", properties: "=" };
+
+/** @ignore */
+const COMMENT: Record<LineFormat, RegExp> = { ini: /^\s*(?:[#;].*)?$/, env: /^\s*(?:#.*)?$/, properties: /^\s*(?:[#!].*)?$/ };
+
+/** @ignore */
+const PROPERTIES_ESCAPES: Record<string, string> = { t: "\t", n: "\n", r: "\r", f: "\f" };
+
+/**
+ * Returns whether given value is stored as a section of an `ini` file.
+ *
+ * @ignore
+ */
+function isSection(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Unescapes keys and values of `.properties` files. (e.g. `\t`, `\u00e9`, `\=`)
+ *
+ * @ignore
+ */
+function unescapeProperties(text: string): string {
+  return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (match, char: string) =>
+    char.length > 1 ? String.fromCharCode(parseInt(char.slice(1), 16)) : PROPERTIES_ESCAPES[char] ?? char
+  );
+}
+
+/**
+ * Parses value of an `.env` entry, and returns it with the text following the value. (e.g. a comment)
+ *
+ * @ignore
+ */
+function parseEnvValue(text: string): { value: string; suffix: string } {
+  const quote = text[0];
+  if (quote === '"' || quote === "'") {
+    let closing = 1;
+    while (closing < text.length && text[closing] !== quote) closing += quote === '"' && text[closing] === "\\" ? 2 : 1;
+    if (closing < text.length) {
+      const raw = text.slice(1, closing);
+      const value = quote === "'" ? raw : raw.replace(/\\([\\"n])/g, (match, char) => (char === "n" ? "\n" : char));
+      return { value, suffix: text.slice(closing + 1) };
+    }
+  }
+  const [, value, suffix] = text.match(/^(.*?)(\s+#.*)?$/) as string[];
+  return { value: value.trim(), suffix: suffix ?? "" };
+}
+
+/**
+ * Parses value of an `ini` entry. Quoted values are unquoted.
+ *
+ * @ignore
+ */
+function parseIniValue(text: string): string {
+  const value = text.trim();
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return /^'.*'$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Splits given content into lines and parses entries.
+ *
+ * @ignore
+ * @param content is the content of the file.
+ * @param format is the format of the file.
+ * @returns parsed lines.
+ */
+function parseLines(content: string, format: LineFormat): Line[] {
+  if (content === "") return [];
+  const rawLines = content.replace(/\r?\n$/, "").split(/\r?\n/);
+  const lines: Line[] = [];
+  let section: string | undefined;
+
+  for (let index = 0; index < rawLines.length; index += 1) {
+    let text = rawLines[index];
+    if (COMMENT[format].test(text)) {
+      lines.push({ text, section });
+    } else if (format === "ini" && /^\s*\[.*\]\s*$/.test(text)) {
+      section = text.trim().slice(1, -1).trim();
+      lines.push({ text, section, header: true });
+    } else if (format === "ini") {
+      const match = text.match(/^(\s*([^=]*?)\s*=\s*)(.*)$/);
+      if (!match) lines.push({ text, section });
+      else {
+        const array = match[2].endsWith("[]");
+        const key = array ? match[2].slice(0, -2) : match[2];
+        lines.push({ text, section, key, value: parseIniValue(match[3]), array, prefix: match[1] });
+      }
+    } else if (format === "env") {
+      const match = text.match(/^(\s*(?:export\s+)?([\w.-]+)\s*=\s*)(.*)$/);
+      if (!match) lines.push({ text, section });
+      else lines.push({ text, key: match[2], prefix: match[1], ...parseEnvValue(match[3]) });
+    } else {
+      // Lines ending with an odd number of backslashes continue on the next line.
+      while (/(?:^|[^\\])(?:\\\\)*\\$/.test(text) && index < rawLines.length - 1) {
+        index += 1;
+        text = `${text}\n${rawLines[index]}`;
+      }
+      const match = text.match(/^(\s*((?:\\.|[^\s=:\\])*)\s*[=:]?\s*)([\s\S]*)$/);
+      // A line having neither a key nor a separator (e.g. a lone `\` at the end of the file) is kept as is. `=value` has an empty key.
+      if (!match || (match[2] === "" && !/^\s*[=:]/.test(text))) lines.push({ text, section });
+      else {
+        const [, prefix, key, value] = match;
+        // Continuation backslash of the last line has no line to join.
+        const joined = value.replace(/\\\n\s*/g, "").replace(/(^|[^\\])((?:\\\\)*)\\$/, "$1$2");
+        lines.push({ text, key: unescapeProperties(key), value: unescapeProperties(joined), prefix });
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Builds data from given lines. Later entries of the same key override earlier ones, `ini` array items are collected.
+ *
+ * @ignore
+ */
+function getLinesData(lines: Line[]): Record<string, any> {
+  return lines.reduce((data: Record<string, any>, line) => {
+    if (line.header && line.section !== undefined && !isSection(data[line.section])) data[line.section] = {}; // eslint-disable-line no-param-reassign
+    if (line.key === undefined) return data;
+    const target = line.section === undefined ? data : data[line.section];
+    if (!line.array) target[line.key] = line.value;
+    else target[line.key] = Array.isArray(target[line.key]) ? [...target[line.key], line.value] : [line.value];
+    return data;
+  }, {});
+}
+
+/**
+ * Parses content of a line oriented file. `ini` sections are returned as objects, all values are strings.
+ *
+ * @ignore
+ * @param content is the content of the file.
+ * @param format is the format of the file.
+ * @returns parsed data.
+ */
+export function parseLineFormat(content: string, format: LineFormat): Record<string, any> {
+  return getLinesData(parseLines(content, format));
+}
+
+/**
+ * Returns the text of the given value to be written to a line oriented file.
+ *
+ * @ignore
+ * @throws if value is an object.
+ */
+function renderValue(format: LineFormat, value: any, path: string): string {
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    throw new Error(`Cannot write '${path}' to '${format}' file: nested values are not supported.`);
+  }
+  const text = value === null || value === undefined ? "" : String(value);
+  if (format === "env") return /[\s#"'\\]/.test(text) ? `"${text.replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n")}"` : text;
+  if (format === "ini") return /^\s|\s$|^["']|[;#\n]/.test(text) ? JSON.stringify(text) : text;
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/^\s/, "\\$&");
+}
+
+/**
+ * Returns lines of a new entry.
+ *
+ * @ignore
+ */
+function renderEntry(format: LineFormat, key: string, value: any, separator: string, path: string): string[] {
+  const keyText = format === "properties" ? key.replace(/[\\=:\s#!]/g, "\\$&") : key;
+  if (format === "ini" && Array.isArray(value)) return value.map((item) => `${keyText}[]${separator}${renderValue(format, item, path)}`);
+  return [`${keyText}${separator}${renderValue(format, value, path)}`];
+}
+
+/**
+ * Applies changes in the data to the content of a line oriented file (`ini`, `.env`, `.properties`). Comments, blank lines,
+ * order and text of untouched entries are kept as is. Changed entries are rewritten in place, new entries are added after the
+ * last entry of their section and new sections are added to the end of the file. Empty content is used for new files.
+ *
+ * @ignore
+ * @param content is the original content.
+ * @param data is the new data to be written.
+ * @param format is the format of the file.
+ * @returns updated content.
+ * @throws if data has values which cannot be written to the format. (e.g. nested objects in `.env` files)
+ */
+export function patchLineFormat(content: string, data: Record<string, any>, format: LineFormat): string {
+  const lines = parseLines(content, format);
+  const original = getLinesData(lines);
+  const newLine = content.includes("\r\n") ? "\r\n" : "\n";
+  const entry = lines.find((line) => line.key !== undefined && line.prefix);
+  const separator = entry ? (entry.prefix as string).match(/\s*[=:]?\s*$/)?.[0] || DEFAULT_SEPARATORS[format] : DEFAULT_SEPARATORS[format];
+  const isInSection = (key: string): boolean => format === "ini" && isSection(data[key]);
+
+  const output: string[] = [];
+  const written = new Set<string>();
+  const sectionEnds = new Map<string | undefined, number>();
+  let firstHeader: number | undefined;
+  let skipSection = false;
+
+  lines.forEach((line) => {
+    if (line.header) {
+      skipSection = !isInSection(line.section as string);
+      if (skipSection) return;
+      if (firstHeader === undefined) firstHeader = output.length;
+      output.push(line.text);
+      sectionEnds.set(line.section, output.length);
+      return;
+    }
+    if (line.section !== undefined && skipSection) return;
+    if (line.key === undefined) {
+      output.push(line.text);
+      return;
+    }
+
+    const target = line.section === undefined ? data : data[line.section];
+    const id = JSON.stringify([line.section, line.key]);
+    const path = line.section === undefined ? line.key : `${line.section}.${line.key}`;
+    if (!Object.prototype.hasOwnProperty.call(target, line.key) || (line.section === undefined && isInSection(line.key))) return;
+    const value = target[line.key];
+    const originalValue = line.section === undefined ? original[line.key] : original[line.section][line.key];
+
+    if (isEqual(value, originalValue)) output.push(line.text);
+    else if (written.has(id)) return;
+    else if (!line.array && !Array.isArray(value)) output.push(`${line.prefix}${renderValue(format, value, path)}${line.suffix ?? ""}`);
+    else output.push(...renderEntry(format, line.key, value, separator, path));
+    written.add(id);
+    sectionEnds.set(line.section, output.length);
+  });
+
+  // Add new entries after the last entry of their section. Index is decreasing, so earlier indexes are not shifted.
+  const insertions: Array<{ index: number; lines: string[] }> = [];
+  const getNewEntries = (values: Record<string, any>, existing: Record<string, any> | undefined, section?: string): string[] =>
+    Object.keys(values)
+      .filter((key) => !(existing && Object.prototype.hasOwnProperty.call(existing, key)) && !(section === undefined && isInSection(key)))
+      .reduce(
+        (result: string[], key) => [...result, ...renderEntry(format, key, values[key], separator, section ? `${section}.${key}` : key)],
+        []
+      );
+
+  const globals = getNewEntries(data, original);
+  if (globals.length > 0) insertions.push({ index: sectionEnds.get(undefined) ?? firstHeader ?? output.length, lines: globals });
+  Object.keys(data)
+    .filter((key) => isInSection(key) && sectionEnds.has(key))
+    .forEach((section) => {
+      const entries = getNewEntries(data[section], original[section], section);
+      if (entries.length > 0) insertions.push({ index: sectionEnds.get(section) as number, lines: entries });
+    });
+  insertions.sort((a, b) => b.index - a.index).forEach((insertion) => output.splice(insertion.index, 0, ...insertion.lines));
+
+  Object.keys(data)
+    .filter((key) => isInSection(key) && !sectionEnds.has(key))
+    .forEach((section) => {
+      if (output.length > 0 && output[output.length - 1].trim() !== "") output.push("");
+      output.push(`[${section}]`, ...getNewEntries(data[section], undefined, section));
+    });
+
+  return output.length === 0 ? "" : `${output.join(newLine)}${newLine}`;
+}
@@ -1,7 +1,36 @@
-import { join, isAbsolute, relative } from "path";
-import { Logger, PrettierConfig, WritableFileFormat, ManagerLoadOptions, ManagerFromDataOptions } from "./types";
+import { join, isAbsolute, relative, resolve as resolvePath, dirname, basename } from "path";
+import { watch, FSWatcher } from "fs";
+import { EventEmitter } from "events";
+import { outputFile, remove, rename } from "fs-extra";
+import cloneDeep from "clone-deep";
+import {
+  Logger,
+  PrettierConfig,
+  WritableFileFormat,
+  ManagerLoadOptions,
+  ManagerFromDataOptions,
+  SaveAllResult,
+  SaveResult,
+  StagedFile,
+  ManagerEvents,
+  Recipe,
+  RecipeReport,
+  ManagerGlobOptions,
+  EditResult,
+  InterpolationOptions,
+  ManagerExtendsOptions,
+  ConvertOptions,
+  CosmiconfigLocation,
+  CosmiconfigLoadOptions,
+} from "./types";
 import DataFile from "./data-file";
-import { getPrettierConfig, noLogger } from "./helper";
+import { getPrettierConfig, noLogger, em, readData, getStringPath, getChangedPaths, getCosmiconfigLocation } from "./helper";
+import { validateRecipe, applyOperation } from "./recipe";
+import { findPaths, getWorkspacePaths } from "./workspace";
+import ConfigChain, { getExtendsSpecifiers, resolveExtends } from "./config-chain";
+
+/** Milliseconds to wait for subsequent file system events before reloading a changed file. */
+const WATCH_DELAY = 100;
 
 /**
  * Manage multiple configuration files using [[DataFile]].
@@ -12,6 +41,12 @@ export default class Manager {
   #files: Record<string, DataFile> = {};
   #prettierConfig?: PrettierConfig;
   #saveIfChanged: boolean;
+  #dryRun: boolean;
+  #validateOnSave: boolean;
+  #interpolate?: boolean | InterpolationOptions;
+  #watchers?: Record<string, FSWatcher>; // Directory watchers. `undefined` if not in watch mode.
+  readonly #timers: Record<string, ReturnType<typeof setTimeout>> = {};
+  readonly #emitter = new EventEmitter();
 
   /**
    * Creates a manager to manage multiple data files.
@@ -19,13 +54,96 @@ export default class Manager {
    * @param root is the root path to be used for all relative file paths.
    * @param logger is the winston compatible Logger to be used when logging.
    * @param saveIfChanged is whether to save file only if data is changed. Clones initial data deeply to check during save.
+   * @param dryRun is whether to only report changes instead of writing files, when files are saved.
+   * @param validateOnSave is whether to throw instead of saving a file if its data is not valid according to its schema.
+   * @param watch is whether to watch loaded files and reload them when they are changed on disk. See [[Manager.watch]].
+   * @param interpolate is the default `interpolate` option of the files. `${file:path}` placeholders are resolved from the files loaded by the manager.
    */
   public constructor(
-    { root = process.cwd(), logger = noLogger, saveIfChanged }: { root?: string; logger?: Logger; saveIfChanged?: boolean } = {} as any
+    {
+      root = process.cwd(),
+      logger = noLogger,
+      saveIfChanged,
+      dryRun,
+      validateOnSave,
+      watch: watchFiles,
+      interpolate,
+    }: {
+      root?: string;
+      logger?: Logger;
+      saveIfChanged?: boolean;
+      dryRun?: boolean;
+      validateOnSave?: boolean;
+      watch?: boolean;
+      interpolate?: boolean | InterpolationOptions;
+    } = {} as any
   ) {
     this.#root = root;
     this.#logger = logger;
     this.#saveIfChanged = saveIfChanged || false;
+    this.#dryRun = dryRun || false;
+    this.#validateOnSave = validateOnSave || false;
+    this.#interpolate = interpolate;
+    if (watchFiles) this.watch();
+  }
+
+  /**
+   * Starts watching all loaded files and files loaded later, including files found by cosmiconfig. When a file is changed on disk,
+   * it is reloaded and `change` event is emitted. If data of the file has unsaved modifications, it is not reloaded and
+   * `conflict` event is emitted instead. Call [[Manager.unwatch]] to stop watching.
+   *
+   * @returns this instance.
+   *
+   * @example
+   * manager.watch().on("change", ({ path, changedPaths }) => console.log(path, changedPaths));
+   */
+  public watch(): this {
+    if (this.#watchers) return this;
+    this.#watchers = {};
+    this.dataFiles.forEach((dataFile) => this.watchFile(dataFile));
+    return this;
+  }
+
+  /**
+   * Stops watching files.
+   *
+   * @returns this instance.
+   */
+  public unwatch(): this {
+    Object.values(this.#watchers ?? {}).forEach((watcher) => watcher.close());
+    Object.keys(this.#timers).forEach((path) => {
+      clearTimeout(this.#timers[path]);
+      delete this.#timers[path];
+    });
+    this.#watchers = undefined;
+    return this;
+  }
+
+  /**
+   * Adds a listener for the events emitted in watch mode.
+   *
+   * @param event is the name of the event.
+   * @param listener is the listener function.
+   * @returns this instance.
+   *
+   * @example
+   * manager.on("conflict", ({ path }) => console.log(`${path} is changed on disk, but it has unsaved modifications.`));
+   */
+  public on<E extends keyof ManagerEvents>(event: E, listener: ManagerEvents[E]): this {
+    this.#emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Removes given listener.
+   *
+   * @param event is the name of the event.
+   * @param listener is the listener function to remove.
+   * @returns this instance.
+   */
+  public off<E extends keyof ManagerEvents>(event: E, listener: ManagerEvents[E]): this {
+    this.#emitter.off(event, listener);
+    return this;
   }
 
   /**
@@ -37,28 +155,59 @@ export default class Manager {
    * @returns [[DataFile]] instance.
    * @example
    * manager.load("package.json");
+   * manager.load<PackageJson>("package.json"); // Paths and values of `get`, `set`, `has` and `delete` are type checked.
    * manager.load("eslint", { defaultFormat: "json", cosmiconfig: { options: { packageProp: "eslint" }, searchForm: "some/path" } })
    */
-  public async load(path: string, options: ManagerLoadOptions = {}): Promise<DataFile> {
+  public async load<T extends object = any>(path: string, options: ManagerLoadOptions = {}): Promise<DataFile<T>> {
     const fullPath = isAbsolute(path) || options.cosmiconfig ? path : join(this.#root, path);
     if (this.#prettierConfig === undefined) this.#prettierConfig = (await getPrettierConfig(fullPath)) || null;
-    const cacheKey = relative("/", path);
+    const cacheKey = this.getCacheKey(path, options.cosmiconfig);
 
-    // if (!this.#files[path]) {
     if (!this.#files[cacheKey]) {
       const allOptions = {
         saveIfChanged: this.#saveIfChanged,
+        validateOnSave: this.#validateOnSave,
         ...options,
+        interpolate: this.getInterpolation(options.interpolate),
+        dryRun: this.#dryRun,
         logger: this.#logger,
         rootDir: this.#root,
         prettierConfig: this.#prettierConfig,
       };
       this.#files[cacheKey] = await DataFile.load(fullPath, allOptions);
+      this.watchFile(this.#files[cacheKey]);
     }
 
     return this.#files[cacheKey];
   }
 
+  /**
+   * Returns the key to cache a file with. Files are cached by their absolute paths, so a file loaded with relative and absolute
+   * paths has a single instance. Cosmiconfig configurations are cached by their module names.
+   *
+   * @param path is the path of the file or the module name.
+   * @param cosmiconfig is the `cosmiconfig` option.
+   * @returns cache key.
+   */
+  private getCacheKey(path: string, cosmiconfig?: ManagerLoadOptions["cosmiconfig"]): string {
+    return cosmiconfig ? path : resolvePath(this.#root, path);
+  }
+
+  /**
+   * Returns interpolation options of a file, which resolve `${file:path}` placeholders from the files loaded by the manager.
+   *
+   * @param interpolate is the `interpolate` option of the file. Default option of the manager is used if it is `undefined`.
+   * @returns interpolation options or `false` if interpolation is disabled.
+   */
+  private getInterpolation(interpolate = this.#interpolate): InterpolationOptions | false {
+    if (!interpolate) return false;
+    const getFile = (path: string): DataFile | undefined => {
+      const fullPath = isAbsolute(path) ? path : join(this.#root, path);
+      return Object.values(this.#files).find((dataFile) => dataFile.path === fullPath);
+    };
+    return { getFile, ...(interpolate === true ? {} : interpolate) };
+  }
+
   /**
    * Creates [[DataFile]] instance from given data and returns it. Also caches the data.
    *
@@ -67,23 +216,89 @@ export default class Manager {
    * @param options are options
    * @returns [[DataFile]] instance.
    */
-  public async fromData(path: string, data: object, options: ManagerFromDataOptions = {}): Promise<DataFile> {
+  public async fromData<T extends object = any>(path: string, data: object, options: ManagerFromDataOptions = {}): Promise<DataFile<T>> {
     const fullPath = isAbsolute(path) ? path : join(this.#root, path);
     if (this.#prettierConfig === undefined) this.#prettierConfig = (await getPrettierConfig(fullPath)) || null;
-    const cacheKey = relative("/", path);
+    const cacheKey = this.getCacheKey(path);
 
     const allOptions = {
       saveIfChanged: this.#saveIfChanged,
+      validateOnSave: this.#validateOnSave,
       ...options,
+      interpolate: this.getInterpolation(options.interpolate),
+      dryRun: this.#dryRun,
       logger: this.#logger,
       rootDir: this.#root,
       prettierConfig: this.#prettierConfig,
     };
     this.#files[cacheKey] = await DataFile.fromData(fullPath, data, allOptions);
+    this.watchFile(this.#files[cacheKey]);
 
     return this.#files[cacheKey];
   }
 
+  /**
+   * Converts a file to another format and path using [[DataFile.convert]], and caches the new file. If `deleteOriginal` option is set,
+   * the original file is removed from the cache and cosmiconfig lookups (e.g. `manager.load("prettier", { cosmiconfig: true })`)
+   * return the new file, so there is exactly one configuration file left.
+   *
+   * @param file is the loaded file or the path of the file to load. Could be an absolute path or relative to root path option provided to [[Manager]].
+   * @param path is the path of the new file. Could be an absolute path or relative to root path option provided to [[Manager]].
+   * @param options are options.
+   * @returns [[DataFile]] instance of the new file.
+   *
+   * @example
+   * const prettierrc = await manager.load("prettier", { cosmiconfig: true }); // .prettierrc.json
+   * await manager.convert(prettierrc, ".prettierrc.yml", { deleteOriginal: true });
+   */
+  public async convert(file: string | DataFile, path: string, options: ConvertOptions = {}): Promise<DataFile> {
+    const dataFile = typeof file === "string" ? await this.load(file) : file;
+    const converted = await dataFile.convert(path, { dryRun: this.#dryRun, logger: this.#logger, ...options });
+
+    if (options.deleteOriginal && converted.path !== dataFile.path) {
+      const pathKey = this.getCacheKey(dataFile.path);
+      Object.keys(this.#files)
+        .filter((key) => this.#files[key] === dataFile)
+        .forEach((key) => {
+          if (key === pathKey) delete this.#files[key];
+          else this.#files[key] = converted; // Cosmiconfig module name.
+        });
+    }
+
+    // A part of a file is not cached with the path of the file, which is used for the whole file.
+    if (options.rootDataPath === undefined) this.#files[this.getCacheKey(converted.path)] = converted;
+    this.watchFile(converted);
+    return converted;
+  }
+
+  /**
+   * Moves cosmiconfig configuration of a module to another location (e.g. from `package.json` to `.prettierrc.yml`) using [[Manager.convert]].
+   * The original configuration is deleted, so cosmiconfig finds the configuration at the new location.
+   *
+   * @param module is the module name.
+   * @param location is the new location. See [[CosmiconfigLocation]].
+   * @param options are cosmiconfig options to find the configuration and [[Manager.convert]] options.
+   * @returns [[DataFile]] instance of the moved configuration.
+   * @throws if configuration is not found, or the new location is not a search place of cosmiconfig.
+   *
+   * @example
+   * await manager.moveCosmiconfig("prettier", ".{module}rc.yml"); // `prettier` key of `package.json` to `.prettierrc.yml`
+   * await manager.moveCosmiconfig("husky", "package.json", { cosmiconfig: { searchFrom: "packages/a" } });
+   */
+  public async moveCosmiconfig(
+    module: string,
+    location: CosmiconfigLocation,
+    {
+      cosmiconfig = {},
+      ...options
+    }: Omit<ConvertOptions, "deleteOriginal" | "rootDataPath"> & { cosmiconfig?: CosmiconfigLoadOptions } = {}
+  ): Promise<DataFile> {
+    const dataFile = await this.load(module, { cosmiconfig });
+    if (!dataFile.found) throw new Error(`Cannot move: '${module}' configuration is not found.`);
+    const target = getCosmiconfigLocation(module, location, cosmiconfig.options, cosmiconfig.searchFrom ?? this.#root);
+    return this.convert(dataFile, target.path, { ...options, rootDataPath: target.rootDataPath, deleteOriginal: true });
+  }
+
   /**
    * Reads data from all given files and caches them. If same data file requested multiple times returns cached data file. Absolute path of the file is used as cache key.
    *
@@ -92,19 +307,344 @@ export default class Manager {
    * @param options.defaultFormat is the default format to be used if file format cannot be determined from file name and content.
    * @param options.defaultData is the default data to be used if file does not exist.
    * @param options.saveIfChanged is whether to save file only if data is changed. Clones initial data deeply to check during save.
+   * @param options.validateOnSave is whether to throw instead of saving a file if its data is not valid according to its schema.
    */
   public async loadAll(
     paths: string[],
-    options: { defaultFormat?: WritableFileFormat; defaultData?: any; readOnly?: boolean; saveIfChanged?: boolean } = {}
+    options: {
+      defaultFormat?: WritableFileFormat;
+      defaultData?: any;
+      readOnly?: boolean;
+      saveIfChanged?: boolean;
+      validateOnSave?: boolean;
+    } = {}
   ): Promise<DataFile[]> {
     return Promise.all(paths.map((path) => this.load(path, options)));
   }
 
   /**
-   * Saves all files.
+   * Finds files matching given glob patterns in the root directory, reads data from them and caches them like [[Manager.load]].
+   * Negated patterns exclude matches. Files ignored by `.gitignore` files and files in `node_modules` are skipped.
+   *
+   * @param patterns are the glob patterns relative to the root path. (e.g. `packages/*\/package.json`)
+   * @param options are load options and glob options.
+   * @returns [[DataFile]] instances sorted by path.
+   *
+   * @example
+   * const packages = await manager.loadGlob("packages/*\/package.json");
+   * const packages = await manager.loadGlob("**\/package.json", { workspaces: true }); // Only the workspace packages.
+   * const configs = await manager.loadGlob(["**\/tsconfig.json", "!**\/fixtures/**"], { gitignore: false });
+   */
+  public async loadGlob<T extends object = any>(
+    patterns: string | string[],
+    { gitignore = true, ignore, workspaces = false, ...options }: ManagerGlobOptions = {}
+  ): Promise<DataFile<T>[]> {
+    const paths = await findPaths(this.#root, patterns, { gitignore, ignore });
+    const workspacePaths = workspaces ? await getWorkspacePaths(this.#root, { gitignore }) : undefined;
+    const filteredPaths = workspacePaths ? paths.filter((path) => workspacePaths.some((dir) => path.startsWith(`${dir}/`))) : paths;
+    this.#logger.log("info", `Found ${filteredPaths.length} file(s) matching ${em(([] as string[]).concat(patterns).join(", "))}.`);
+    return Promise.all(filteredPaths.map((path) => this.load<T>(path, options)));
+  }
+
+  /**
+   * Loads given file together with the files it extends using `extends` key recursively, such as `tsconfig.json` or
+   * ESLint configuration. Later entries of an `extends` array have higher precedence, like in TypeScript and ESLint.
+   * Files which cannot be resolved (e.g. `eslint:recommended`) are listed in [[ConfigChain.unresolved]].
+   *
+   * @param path is the path of the file. Could be an absolute path or relative to root path option provided to [[Manager]].
+   * @param options are load options of the file and options of the `extends` key.
+   * @returns the chain of the files.
+   * @throws if a resolved file does not exist or files extend each other circularly.
+   *
+   * @example
+   * const tsconfig = await manager.loadExtendsChain<TsConfig>("tsconfig.json");
+   * tsconfig.get("compilerOptions.strict"); // Merged value.
+   * tsconfig.getSource("compilerOptions.strict"); // DataFile of the `tsconfig.base.json`, which sets it.
+   * const eslint = await manager.loadExtendsChain("eslint", { cosmiconfig: true });
    */
-  public async saveAll(): Promise<void> {
-    this.#logger.log("info", `Starting to save all files.`);
-    await Promise.all(Object.values(this.#files).map((file) => file.save({ throwOnReadOnly: false })));
+  public async loadExtendsChain<T extends object = any>(
+    path: string,
+    { extendsKey = "extends", resolve = resolveExtends, ...options }: ManagerExtendsOptions = {}
+  ): Promise<ConfigChain<T>> {
+    const files: DataFile[] = [];
+    const unresolved: string[] = [];
+    const baseOptions = { defaultFormat: options.defaultFormat, readOnly: options.readOnly, interpolate: options.interpolate };
+
+    const visit = async (dataFile: DataFile, ancestors: DataFile[]): Promise<void> => {
+      const chain = [...ancestors, dataFile].map((file) => relative(this.#root, file.path));
+      if (ancestors.includes(dataFile)) throw new Error(`Cannot load extends chain: circular extends ${chain.join(" -> ")}.`);
+      if (files.includes(dataFile)) return;
+      files.push(dataFile);
+
+      const specifiers = getExtendsSpecifiers(dataFile.get(extendsKey)).reverse();
+      await specifiers.reduce(async (previous, specifier) => {
+        await previous;
+        const basePath = await resolve(specifier, dataFile.path);
+        if (basePath === undefined) {
+          unresolved.push(specifier);
+          return;
+        }
+        const base = await this.load(basePath, baseOptions);
+        if (!base.found)
+          throw new Error(`Cannot load extends chain: '${specifier}' extended by '${chain[chain.length - 1]}' is not found.`);
+        await visit(base, [...ancestors, dataFile]);
+      }, Promise.resolve());
+    };
+
+    await visit(await this.load(path, options), []);
+    this.#logger.log("info", `Loaded extends chain: ${files.map((file) => em(relative(this.#root, file.path))).join(" -> ")}`);
+    return new ConfigChain<T>(files, unresolved, extendsKey);
+  }
+
+  /**
+   * Returns workspace package directories defined by `workspaces` of the `package.json` (npm and yarn) or `packages`
+   * of the `pnpm-workspace.yaml` in the root directory. Only directories containing a `package.json` are returned.
+   *
+   * @param gitignore is whether to skip directories ignored by `.gitignore` files.
+   * @returns paths of the workspace directories relative to the root path. Empty if no workspace is defined.
+   *
+   * @example
+   * const dirs = await manager.getWorkspaces(); // ["packages/a", "packages/b"]
+   */
+  public async getWorkspaces({ gitignore = true }: { gitignore?: boolean } = {}): Promise<string[]> {
+    return getWorkspacePaths(this.#root, { gitignore });
+  }
+
+  /**
+   * Applies the same edit to all given files one by one. If the edit function throws for a file, changes made to that file are
+   * reverted and the remaining files are edited. Results of the files are logged individually and as a summary.
+   * Files are not written until they are saved.
+   *
+   * @param dataFiles are the files to edit.
+   * @param edit is the function which edits a file. May return a promise.
+   * @returns results of the files in the given order.
+   *
+   * @example
+   * const packages = await manager.loadGlob("packages/*\/package.json");
+   * const results = await manager.editAll(packages, (pkg) => pkg.set("license", "MIT").merge("scripts", { build: "tsc" }));
+   * const failed = results.filter((result) => result.status === "failed");
+   * await manager.saveAll();
+   */
+  public async editAll<T extends object = any>(dataFiles: DataFile<T>[], edit: (dataFile: DataFile<T>) => unknown): Promise<EditResult[]> {
+    const results = await dataFiles.reduce(async (previous, dataFile) => {
+      const editResults = await previous;
+      const data = cloneDeep(dataFile.data);
+      // Restores direct modifications of `data` too, which are not recorded in the history.
+      const restore = dataFile.createRestorePoint();
+      const shortPath = relative(this.#root, dataFile.path);
+
+      try {
+        await edit(dataFile);
+      } catch (error) {
+        restore();
+        this.#logger.log("error", `Edit failed: ${em(shortPath)}: ${error.message}`);
+        return [...editResults, { path: dataFile.path, status: "failed" as const, changedPaths: [], error }];
+      }
+
+      const changedPaths = getChangedPaths(data, dataFile.data);
+      const status = changedPaths.length > 0 ? ("modified" as const) : ("unchanged" as const);
+      this.#logger.log("info", `File ${status}: ${em(shortPath)}${changedPaths.length > 0 ? ` (${changedPaths.join(", ")})` : ""}`);
+      return [...editResults, { path: dataFile.path, status, changedPaths }];
+    }, Promise.resolve([] as EditResult[]));
+
+    const count = (status: EditResult["status"]): number => results.filter((result) => result.status === status).length;
+    this.#logger.log(
+      "info",
+      `Edited ${results.length} file(s): ${count("modified")} modified, ${count("unchanged")} unchanged, ${count("failed")} failed.`
+    );
+    return results;
+  }
+
+  /**
+   * Applies operations of a declarative recipe to the files. Files are loaded using [[Manager.load]], so they are not written
+   * until they are saved. Operations having a condition (`if`) are applied only if the condition passes.
+   *
+   * @param recipe is the recipe or path of a JSON or YAML file containing the recipe. Could be an absolute path or relative to root path.
+   * @returns report of the applied and skipped operations.
+   * @throws if recipe is not valid.
+   *
+   * @example
+   * const report = await manager.applyRecipe({
+   *   files: [
+   *     {
+   *       path: "package.json",
+   *       operations: [
+   *         { op: "set", path: "scripts.build", value: "tsc", if: { exists: false } },
+   *         { op: "appendItems", path: "files", items: ["dist"], unique: true },
+   *       ],
+   *     },
+   *   ],
+   * });
+   * await manager.applyRecipe("recipes/typescript.yml");
+   * await manager.saveAll();
+   */
+  public async applyRecipe(recipe: Recipe | string): Promise<RecipeReport> {
+    const recipeData: Recipe =
+      typeof recipe === "string" ? (await readData(isAbsolute(recipe) ? recipe : join(this.#root, recipe), {})).data : recipe;
+    validateRecipe(recipeData);
+    const report: RecipeReport = { operations: [], modified: [] };
+
+    await recipeData.files.reduce(async (previous, { path, operations, ...options }) => {
+      await previous;
+      const dataFile = await this.load(path, options);
+      operations.forEach((operation) => {
+        const applied = applyOperation(dataFile, operation);
+        report.operations.push({ file: dataFile.path, op: operation.op, path: String(getStringPath(operation.path ?? []) ?? ""), applied });
+        if (applied && !report.modified.includes(dataFile.path)) report.modified.push(dataFile.path);
+      });
+    }, Promise.resolve());
+
+    this.#logger.log(
+      "info",
+      `Recipe applied: ${report.operations.filter((result) => result.applied).length} of ${report.operations.length} operation(s).`
+    );
+    return report;
+  }
+
+  /**
+   * Saves all files. In dry run mode, files are not written, changes are logged and returned as unified diffs.
+   * In atomic mode, all files are written into temporary sibling files first and moved into place only if all of them are written.
+   * If any of the files cannot be saved, original contents are restored and newly created files are deleted.
+   *
+   * @param dryRun is whether to only report changes without writing files. Defaults to `dryRun` option of the [[Manager]].
+   * @param atomic is whether to save all files or none of them.
+   * @returns results of the saved files and summary of created, changed and untouched files.
+   * @throws if a file cannot be saved. In atomic mode, after changes are rolled back.
+   *
+   * @example
+   * const { changed, files } = await manager.saveAll({ dryRun: true });
+   * await manager.saveAll({ atomic: true });
+   */
+  public async saveAll({ dryRun = this.#dryRun, atomic = false }: { dryRun?: boolean; atomic?: boolean } = {}): Promise<SaveAllResult> {
+    this.#logger.log("info", dryRun ? `Starting dry run to save all files.` : `Starting to save all files.`);
+    const results =
+      atomic && !dryRun
+        ? await this.saveAllAtomic()
+        : await Promise.all(this.dataFiles.map((file) => file.save({ throwOnReadOnly: false, dryRun })));
+    const files = results.filter((result) => result !== undefined) as SaveResult[];
+    const pathsOf = (status: SaveResult["status"]): string[] => files.filter((file) => file.status === status).map((file) => file.path);
+    const summary = { files, created: pathsOf("created"), changed: pathsOf("changed"), unchanged: pathsOf("unchanged") };
+
+    if (dryRun) {
+      const { created, changed, unchanged } = summary;
+      this.#logger.log("info", `Dry run: ${created.length} created, ${changed.length} changed, ${unchanged.length} untouched file(s).`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Writes all files into temporary sibling files, and moves them into place only if all of them are written successfully.
+   * If any of the operations fails, restores original contents of the moved files, deletes newly created files and temporary files.
+   *
+   * @returns results of the saved files.
+   * @throws first error occurred after rolling back changes.
+   */
+  private async saveAllAtomic(): Promise<SaveResult[]> {
+    // A whole file is staged once, because the temporary file moved last would overwrite the others.
+    const isFirstOfPath = (file: DataFile, index: number, files: DataFile[]): boolean =>
+      files.findIndex((other) => !other.isPartial && resolvePath(other.path) === resolvePath(file.path)) === index;
+    const stagings: Array<{ staged?: StagedFile; error?: Error }> = await Promise.all(
+      this.dataFiles
+        .filter((file, index, files) => file.isPartial || isFirstOfPath(file, index, files))
+        .map((file) =>
+          file.stage().then(
+            (staged) => ({ staged }),
+            (error: Error) => ({ error })
+          )
+        )
+    );
+    const staged = stagings.map((staging) => staging.staged).filter((file) => file !== undefined) as StagedFile[];
+    const stagingError = stagings.find((staging) => staging.error)?.error;
+    const removeTemporary = (files: StagedFile[]): Promise<void[]> =>
+      Promise.all(files.map((file) => (file.tempPath ? remove(file.tempPath) : undefined)));
+
+    if (stagingError) {
+      await removeTemporary(staged);
+      this.#logger.log("error", `No files saved: ${stagingError.message}`);
+      throw stagingError;
+    }
+
+    const moved: StagedFile[] = [];
+    try {
+      await staged.reduce(async (previous, file) => {
+        await previous;
+        if (!file.tempPath) return;
+        await rename(file.tempPath, file.result.path);
+        moved.push(file);
+      }, Promise.resolve());
+    } catch (error) {
+      await Promise.all(
+        moved.map((file) => (file.original === undefined ? remove(file.result.path) : outputFile(file.result.path, file.original)))
+      );
+      await removeTemporary(staged.filter((file) => !moved.includes(file)));
+      this.#logger.log("error", `Changes are rolled back: ${error.message}`);
+      throw error;
+    }
+
+    staged.forEach((file) => file.commit());
+    return staged.map((file) => file.result);
+  }
+
+  /** Cached files without duplicates. A file is cached under multiple keys (e.g. a cosmiconfig module name and its path) after [[Manager.convert]]. */
+  private get dataFiles(): DataFile[] {
+    return [...new Set(Object.values(this.#files))];
+  }
+
+  /**
+   * Watches the directory of the given file, if it is not already watched. Directories are watched instead of files,
+   * because editors usually replace files while saving, and files not created yet can be watched too.
+   *
+   * @param dataFile is the file to watch.
+   */
+  private watchFile(dataFile: DataFile): void {
+    const dir = dirname(dataFile.path);
+    if (!this.#watchers || this.#watchers[dir]) return;
+    try {
+      const watcher = watch(dir, (eventType, fileName) => {
+        const changedFiles = this.dataFiles.filter(
+          (file) => dirname(file.path) === dir && (!fileName || basename(file.path) === fileName.toString())
+        );
+        changedFiles.forEach((file) => {
+          clearTimeout(this.#timers[file.path]);
+          this.#timers[file.path] = setTimeout(() => this.syncFile(file), WATCH_DELAY);
+        });
+      });
+      // Unhandled `error` event of the watcher (e.g. the directory is removed) would crash the process.
+      watcher.on("error", (error) => {
+        watcher.close();
+        if (this.#watchers?.[dir] === watcher) delete this.#watchers[dir];
+        this.#logger.log("error", `Stopped watching '${em(dir)}': ${error.message}`);
+        if (this.#emitter.listenerCount("error") === 0) return;
+        this.dataFiles.filter((file) => dirname(file.path) === dir).forEach((file) => this.#emitter.emit("error", error, file));
+      });
+      this.#watchers[dir] = watcher;
+    } catch (error) {
+      this.#logger.log("warn", `Cannot watch '${em(dir)}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Reloads given file if it is changed on disk and emits related event.
+   *
+   * @param dataFile is the file to reload.
+   */
+  private async syncFile(dataFile: DataFile): Promise<void> {
+    delete this.#timers[dataFile.path];
+    try {
+      const result = await dataFile.syncWithDisk();
+      if (!result) return;
+      const event = { dataFile, path: dataFile.path, changedPaths: result.changedPaths };
+      if (result.conflict) {
+        this.#logger.log("warn", `File changed on disk, but not reloaded because of unsaved modifications: ${em(dataFile.path)}`);
+        this.#emitter.emit("conflict", event);
+      } else {
+        this.#logger.log("info", `File reloaded: ${em(dataFile.path)}`);
+        this.#emitter.emit("change", event);
+      }
+    } catch (error) {
+      this.#logger.log("error", `File cannot be reloaded: ${em(dataFile.path)}: ${error.message}`);
+      if (this.#emitter.listenerCount("error") > 0) this.#emitter.emit("error", error, dataFile);
+    }
   }
 }
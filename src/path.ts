@@ -0,0 +1,255 @@
+import get from "lodash.get";
+import has from "lodash.has";
+import { DataPath, Key, PathSegment } from "./types";
+
+/** @ignore */
+interface PathToken {
+  text: string;
+  bracket: boolean;
+}
+
+/** Characters which require a key to be written in brackets in a string path. */
+const SPECIAL_CHARACTERS = /[.[\]"'\\*]/;
+
+/**
+ * Removes surrounding quotes and escapes of a quoted string. Unquoted strings are returned as is.
+ *
+ * @ignore
+ */
+function unquote(value: string): string {
+  const quoted = value.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2].replace(/\\(.)/g, "$1") : value;
+}
+
+/**
+ * Returns whether given bracket content is a quoted key.
+ *
+ * @ignore
+ */
+function isQuoted(content: string): boolean {
+  return /^(["']).*\1$/.test(content.trim());
+}
+
+/**
+ * Splits a string path into dot separated keys and bracket contents.
+ *
+ * @ignore
+ * @throws if path has an unclosed bracket.
+ */
+function tokenize(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let current = "";
+  let hasCurrent = false;
+  const pushCurrent = (): void => {
+    tokens.push({ text: current, bracket: false });
+    current = "";
+    hasCurrent = false;
+  };
+
+  for (let index = 0; index < path.length; index += 1) {
+    const char = path[index];
+    if (char === ".") {
+      if (hasCurrent || tokens.length === 0 || path[index - 1] === ".") pushCurrent();
+    } else if (char === "[") {
+      if (hasCurrent) pushCurrent();
+      let end = index + 1;
+      let quote: string | undefined;
+      for (; end < path.length && (quote || path[end] !== "]"); end += 1) {
+        if (quote && path[end] === "\\") end += 1;
+        else if (path[end] === quote) quote = undefined;
+        else if (!quote && (path[end] === '"' || path[end] === "'")) quote = path[end];
+      }
+      if (end >= path.length) throw new Error(`Unclosed bracket in path '${path}'.`);
+      tokens.push({ text: path.slice(index + 1, end), bracket: true });
+      index = end;
+    } else {
+      current += char;
+      hasCurrent = true;
+    }
+  }
+
+  if (hasCurrent || tokens.length === 0 || path.endsWith(".")) pushCurrent();
+  return tokens;
+}
+
+/**
+ * Splits the content of a filter segment into conditions on `&` characters, which are not in quotes.
+ *
+ * @ignore
+ */
+function splitConditions(content: string): string[] {
+  const conditions = [""];
+  let quote: string | undefined;
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quote && char === "\\") {
+      conditions[conditions.length - 1] += content.slice(index, index + 2);
+      index += 1;
+    } else if (!quote && char === "&") conditions.push("");
+    else {
+      if (char === quote) quote = undefined;
+      else if (!quote && (char === '"' || char === "'")) quote = char;
+      conditions[conditions.length - 1] += char;
+    }
+  }
+  return conditions;
+}
+
+/**
+ * Parses the content of a bracket segment. (e.g. `*`, `0`, `"./lib"`, `name=a`, `name="a.b"`, `kind=Service&metadata.name=web`)
+ *
+ * @ignore
+ */
+function parseBracket(content: string, path: string): PathSegment {
+  const trimmed = content.trim();
+  if (isQuoted(trimmed)) return { type: "key", key: unquote(trimmed) };
+  if (trimmed === "" || trimmed === "*") return { type: "wildcard" };
+  if (/^\d+$/.test(trimmed)) return { type: "key", key: Number(trimmed) };
+
+  const conditions = splitConditions(trimmed).map((condition) => {
+    const match = condition.trim().match(/^((?:["'].*?["'])|[^=]+?)\s*=\s*(.*)$/);
+    if (!match) throw new Error(`Invalid path segment '[${content}]' in '${path}'.`);
+    const keyPath = isQuoted(match[1])
+      ? [unquote(match[1])]
+      : tokenize(match[1]).map(({ text, bracket }) => (bracket && /^\d+$/.test(text) ? Number(text) : unquote(text)));
+    return { path: keyPath, value: unquote(match[2]) };
+  });
+  return { type: "filter", conditions };
+}
+
+/**
+ * Parses a string data path into segments. Segments are separated by dots. `*` matches all keys of an object or all elements
+ * of an array, `**` matches any number of levels. Brackets are used for array indexes (`[0]`), keys containing special
+ * characters (`["./lib"]`), all elements (`[]` or `[*]`) and filters matching elements by properties (`[name=value]`,
+ * `[name="value with dots"]` or `[kind=Service&metadata.name=web]`).
+ *
+ * @ignore
+ * @param path is the string path to parse.
+ * @returns path segments.
+ * @throws if path has an unclosed bracket or an invalid bracket segment.
+ */
+export function parsePath(path: string): PathSegment[] {
+  return tokenize(path).map(({ text, bracket }) => {
+    if (bracket) return parseBracket(text, path);
+    if (text === "**") return { type: "globstar" };
+    return text === "*" ? { type: "wildcard" } : { type: "key", key: text };
+  });
+}
+
+/**
+ * Splits a string path into keys. Keys are separated by dots. Brackets are used for array indexes (`[0]`) and quoted keys
+ * containing special characters (`exports["./lib"].import`). Wildcards are not expanded.
+ *
+ * @ignore
+ * @param path is the string path to split.
+ * @returns keys of the path.
+ * @throws if path has an unclosed bracket or a bracket which is not an index or a quoted key.
+ */
+export function splitPath(path: string): Key[] {
+  return tokenize(path).map(({ text, bracket }) => {
+    if (!bracket) return text;
+    const segment = parseBracket(text, path);
+    if (segment.type !== "key") throw new Error(`Invalid path segment '[${text}]' in '${path}'. Use quotes for keys.`);
+    return segment.key;
+  });
+}
+
+/**
+ * Joins keys into a string path, which can be split back with [[splitPath]]. Keys containing dots, brackets, quotes,
+ * backslashes or asterisks and empty keys are quoted in brackets. (e.g. `["exports", "./lib", "import"]` is joined as
+ * `exports["./lib"].import`)
+ *
+ * @ignore
+ * @param path are the keys to join.
+ * @returns string path.
+ */
+export function joinPath(path: Key[]): string {
+  return path.reduce((result: string, key, index) => {
+    const text = String(key);
+    if (text !== "" && !SPECIAL_CHARACTERS.test(text)) return index === 0 ? text : `${result}.${text}`;
+    return `${result}["${text.replace(/["\\]/g, "\\$&")}"]`;
+  }, "");
+}
+
+/**
+ * Returns whether given path is a query path, which contains wildcard (`*`, `**`, `[]`) or filter (`[name=value]`) segments.
+ * Only string paths may be query paths, so array paths can be used for keys such as `*`.
+ *
+ * @ignore
+ */
+export function isQueryPath(path: DataPath): path is string {
+  if (typeof path !== "string" || !/\*|\[/.test(path)) return false;
+  return parsePath(path).some((segment) => segment.type !== "key");
+}
+
+/**
+ * Returns keys of the object or indexes of the array.
+ *
+ * @ignore
+ */
+function getChildKeys(value: any): Key[] {
+  if (Array.isArray(value)) return value.map((item, index) => index);
+  return value !== null && typeof value === "object" ? Object.keys(value) : [];
+}
+
+/**
+ * Tests whether given value matches all of the filter conditions. Value matches a condition if its property at the condition
+ * path equals to the condition value, or the property is an array including the condition value. Values are compared as strings.
+ *
+ * @ignore
+ * @param value is the value to test.
+ * @param conditions are the paths of the properties and expected values.
+ * @returns whether value matches.
+ */
+export function matchesConditions(value: any, conditions: Array<{ path: Key[]; value: string }>): boolean {
+  return conditions.every(({ path, value: expected }) => {
+    if (value === null || typeof value !== "object" || !has(value, path as any)) return false;
+    const property = get(value, path as any);
+    return Array.isArray(property) ? property.some((item) => String(item) === expected) : String(property) === expected;
+  });
+}
+
+/**
+ * Expands segments into concrete paths. After a globstar, key segments match only existing values too, so that missing
+ * keys are not created at every level.
+ *
+ * @ignore
+ */
+function expand(value: any, segments: PathSegment[], path: Key[], existingOnly = false): Key[][] {
+  if (segments.length === 0) return [path];
+  const [segment, ...rest] = segments;
+  const expandChildren = (keys: Key[], remaining: PathSegment[], afterGlobstar: boolean): Key[][] =>
+    keys.reduce((result, key) => [...result, ...expand(value[key as any], remaining, [...path, key], afterGlobstar)], [] as Key[][]);
+
+  if (segment.type === "key") {
+    const key = Array.isArray(value) && /^\d+$/.test(String(segment.key)) ? Number(segment.key) : segment.key;
+    if (existingOnly && !getChildKeys(value).includes(key)) return [];
+    return expand(value?.[key as any], rest, [...path, key], existingOnly);
+  }
+  if (segment.type === "wildcard") return expandChildren(getChildKeys(value), rest, existingOnly);
+  if (segment.type === "filter") {
+    const keys = getChildKeys(value).filter((key) => matchesConditions(value[key as any], segment.conditions));
+    return expandChildren(keys, rest, existingOnly);
+  }
+  return [...expand(value, rest, path, true), ...expandChildren(getChildKeys(value), segments, true)];
+}
+
+/**
+ * Returns concrete paths matched by a query path. Wildcard and filter segments match only existing values, while key segments
+ * are added to the paths even if they do not exist, so missing values can be set. Paths are unique and in data order.
+ *
+ * @ignore
+ * @param data is the data to query.
+ * @param path is the query path.
+ * @returns concrete data paths.
+ */
+export function resolveQueryPath(data: any, path: string): Key[][] {
+  const paths = expand(data, parsePath(path), []);
+  const seen = new Set<string>();
+  return paths.filter((concretePath) => {
+    const id = JSON.stringify(concretePath);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
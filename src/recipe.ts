@@ -0,0 +1,150 @@
+import isEqual from "lodash.isequal";
+import type DataFile from "./data-file";
+import { compileSchema } from "./schema";
+import { getStringPath } from "./helper";
+import { Recipe, RecipeCondition, RecipeOperation, DataPath } from "./types";
+
+/** @ignore */
+const dataPath = { oneOf: [{ type: "string" }, { type: "number" }, { type: "array", items: { type: ["string", "number"] } }] };
+
+/** @ignore */
+const condition = {
+  type: "object",
+  properties: {
+    path: dataPath,
+    exists: { type: "boolean" },
+    equals: {},
+    notEquals: {},
+    includes: {},
+    all: { type: "array", items: { $ref: "#/definitions/condition" } },
+    any: { type: "array", items: { $ref: "#/definitions/condition" } },
+    not: { $ref: "#/definitions/condition" },
+  },
+  additionalProperties: false,
+};
+
+/** @ignore */
+const operation = {
+  type: "object",
+  properties: {
+    op: { enum: ["set", "delete", "deleteEmptyPath", "merge", "sortKeys", "appendItems", "prependItems", "insertItems", "removeItems"] },
+    path: dataPath,
+    value: {},
+    items: { type: "array" },
+    unique: { type: "boolean" },
+    before: {},
+    after: {},
+    arrayMerge: {
+      oneOf: [
+        { enum: ["merge", "replace", "concat", "union"] },
+        { type: "object", properties: { unionBy: { type: "string" } }, required: ["unionBy"] },
+      ],
+    },
+    start: { type: "array", items: { type: "string" } },
+    end: { type: "array", items: { type: "string" } },
+    if: { $ref: "#/definitions/condition" },
+  },
+  required: ["op"],
+  additionalProperties: false,
+  allOf: [
+    { if: { properties: { op: { enum: ["set", "merge"] } } }, then: { required: ["value"] } },
+    { if: { properties: { op: { enum: ["set", "delete", "deleteEmptyPath"] } } }, then: { required: ["path"] } },
+    {
+      if: { properties: { op: { enum: ["appendItems", "prependItems", "insertItems", "removeItems"] } } },
+      then: { required: ["path", "items"] },
+    },
+  ],
+};
+
+/** @ignore */
+const recipeSchema = {
+  definitions: { condition },
+  type: "object",
+  properties: {
+    files: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { path: { type: "string" }, operations: { type: "array", items: operation } },
+        required: ["path", "operations"],
+      },
+    },
+  },
+  required: ["files"],
+};
+
+/** @ignore */
+const validateRecipeSchema = compileSchema(recipeSchema);
+
+/**
+ * Throws if given recipe is not valid.
+ *
+ * @ignore
+ * @param recipe is the recipe to validate.
+ * @throws if recipe is not valid.
+ */
+export function validateRecipe(recipe: Recipe): void {
+  const errors = validateRecipeSchema(recipe);
+  if (errors.length === 0) return;
+  const details = errors.map((error) => `\n  - ${getStringPath(error.path) || "(root)"}: ${error.message}`).join("");
+  throw new Error(`Invalid recipe:${details}`);
+}
+
+/** @ignore */
+function isRoot(path: DataPath): boolean {
+  return Array.isArray(path) && path.length === 0;
+}
+
+/**
+ * Tests whether given declarative condition passes for the data file.
+ *
+ * @ignore
+ * @param recipeCondition is the condition to test.
+ * @param dataFile is the data file to test.
+ * @param operationPath is the data path of the operation, which is used if condition does not have a path.
+ * @returns whether condition passes.
+ */
+export function testCondition(recipeCondition: RecipeCondition, dataFile: DataFile, operationPath: DataPath): boolean {
+  const path = recipeCondition.path ?? operationPath;
+  const value = isRoot(path) ? dataFile.data : dataFile.get(path);
+  const has = (key: keyof RecipeCondition): boolean => Object.prototype.hasOwnProperty.call(recipeCondition, key);
+  const includes = (): boolean =>
+    Array.isArray(value)
+      ? value.some((item) => isEqual(item, recipeCondition.includes))
+      : String(value ?? "").includes(recipeCondition.includes);
+  const passes = (other: RecipeCondition): boolean => testCondition(other, dataFile, operationPath);
+
+  return (
+    (!has("exists") || (isRoot(path) || dataFile.has(path)) === recipeCondition.exists) &&
+    (!has("equals") || isEqual(value, recipeCondition.equals)) &&
+    (!has("notEquals") || !isEqual(value, recipeCondition.notEquals)) &&
+    (!has("includes") || includes()) &&
+    (recipeCondition.all ?? []).every(passes) &&
+    (recipeCondition.any === undefined || recipeCondition.any.some(passes)) &&
+    (recipeCondition.not === undefined || !passes(recipeCondition.not))
+  );
+}
+
+/**
+ * Applies given recipe operation to the data file if its condition passes.
+ *
+ * @ignore
+ * @param dataFile is the data file to apply operation to.
+ * @param recipeOperation is the operation to apply.
+ * @returns whether operation is applied.
+ */
+export function applyOperation(dataFile: DataFile, recipeOperation: RecipeOperation): boolean {
+  const { op, path = [], value, items = [], unique, before, after, arrayMerge, start, end } = recipeOperation;
+  if (recipeOperation.if && !testCondition(recipeOperation.if, dataFile, path)) return false;
+
+  if (op === "set") dataFile.set(path, value);
+  else if (op === "delete") dataFile.delete(path);
+  else if (op === "deleteEmptyPath") dataFile.deleteEmptyPath(path);
+  else if (op === "merge") dataFile.merge(path, value, { arrayMerge });
+  else if (op === "sortKeys") dataFile.sortKeys(path, { start, end });
+  else if (op === "appendItems") dataFile.appendItems(path, items, { unique });
+  else if (op === "prependItems") dataFile.prependItems(path, items, { unique });
+  else if (op === "insertItems") dataFile.insertItems(path, items, { before, after, unique });
+  else if (op === "removeItems") dataFile.removeItems(path, items);
+  return true;
+}
@@ -0,0 +1,94 @@
+import Ajv from "ajv";
+import { readFileSync } from "fs-extra";
+import { basename, dirname, extname, isAbsolute, join } from "path";
+import { builtinSchemas, builtinSchemaUrls } from "./builtin-schemas";
+import { isObject, parseString } from "./helper";
+import { ValidationError, Key, FileFormat } from "./types";
+
+/** @ignore */
+const ajv = new Ajv({ allErrors: true, jsonPointers: true, unknownFormats: "ignore", logger: false });
+
+/**
+ * Formats of the local schema files by their extensions. Other files (e.g. `.js`) are not read, so they are never executed.
+ *
+ * @ignore
+ */
+const schemaFormats: Record<string, FileFormat> = { ".json": "json", ".yaml": "yaml", ".yml": "yaml" };
+
+/**
+ * Returns the schema referenced by the `$schema` key of the data. Well known schema URLs are resolved from built-in schemas,
+ * other URLs are not fetched. Local paths are relative to the data file and only JSON and YAML files are read.
+ *
+ * @ignore
+ * @param path is the path of the data file.
+ * @param reference is the value of the `$schema` key.
+ * @returns referenced schema or `undefined` if it cannot be resolved.
+ */
+function getReferencedSchema(path: string, reference: unknown): object | undefined {
+  if (typeof reference !== "string") return undefined;
+  if (reference.includes("://")) return builtinSchemaUrls[reference.replace(/^[a-z]+:\/\//, "").replace(/\.json$/, "")];
+  const format = schemaFormats[extname(reference).toLowerCase()];
+  if (!format) return undefined;
+  const schemaPath = isAbsolute(reference) ? reference : join(dirname(path), reference);
+  try {
+    const { data } = parseString(readFileSync(schemaPath, "utf8"), schemaPath, undefined, format);
+    return isObject(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the schema to validate the data. Explicitly provided schema has precedence over the schema referenced by `$schema` key
+ * of the data, and referenced schema has precedence over the built-in schema of the well known file name.
+ *
+ * @ignore
+ * @param path is the path of the data file.
+ * @param data is the data of the file.
+ * @param schema is the explicitly provided schema. If `false`, no schema is resolved.
+ * @returns the schema or `undefined` if there is no schema for the file.
+ */
+export function resolveSchema(path: string, data: any, schema?: object | false): object | undefined {
+  if (schema !== undefined) return schema || undefined;
+  return getReferencedSchema(path, data?.$schema) ?? builtinSchemas[basename(path)];
+}
+
+/**
+ * Converts JSON pointer to data path. Numeric keys of arrays are converted to numbers.
+ *
+ * @ignore
+ */
+function getDataPath(pointer: string, data: any): Key[] {
+  const keys = pointer === "" ? [] : pointer.slice(1).split("/");
+  let value = data;
+  return keys.map((encoded) => {
+    const key = encoded.replace(/~1/g, "/").replace(/~0/g, "~");
+    const result = Array.isArray(value) ? Number(key) : key;
+    value = value?.[result];
+    return result;
+  });
+}
+
+/**
+ * Compiles the schema and returns a function which validates given data.
+ *
+ * @ignore
+ * @param schema is the JSON Schema to validate data with.
+ * @returns validate function which returns validation errors.
+ * @throws if schema is invalid.
+ */
+export function compileSchema(schema: object): (data: any) => ValidationError[] {
+  const validate = ajv.compile(schema);
+  return (data) => {
+    if (validate(data)) return [];
+    return (validate.errors ?? []).map((error) => {
+      const path = getDataPath(error.dataPath, data);
+      const { additionalProperty } = error.params as Ajv.AdditionalPropertiesParams;
+      return {
+        path: error.keyword === "additionalProperties" ? [...path, additionalProperty] : path,
+        message: error.keyword === "additionalProperties" ? "is not an allowed property" : error.message ?? "is invalid",
+        keyword: error.keyword,
+      };
+    });
+  };
+}
@@ -8,11 +8,69 @@ export interface Logger {
 
 export type LogLevel = "error" | "warn" | "info" | "http" | "verbose" | "debug" | "silly";
 
-/** Data file format. */
-export type FileFormat = "" | "json" | "yaml" | "js";
+/**
+ * Data file format. `js` format is used for `.js`, `.cjs`, `.mjs` and `.ts` files. Line oriented formats are `ini`
+ * (e.g. `.npmrc`, `.editorconfig`), `env` (e.g. `.env`, `.env.local`) and `properties` (e.g. `gradle.properties`).
+ */
+export type FileFormat = "" | "json" | "yaml" | "toml" | "js" | "ini" | "env" | "properties" | (string & Record<never, never>);
 
-/** Writeable Data file format. */
-export type WritableFileFormat = "json" | "yaml";
+/** Writeable Data file format. Formats registered using [[registerFormat]] are also supported. */
+export type WritableFileFormat = "json" | "yaml" | "toml" | "ini" | "env" | "properties" | (string & Record<never, never>);
+
+/** How the format of a file is determined. See [[DataFile.formatReport]]. */
+export interface FormatReport {
+  /** Format of the file. */
+  format: FileFormat;
+  /**
+   * What determined the format: `format` option, file name (well known names such as `.prettierrc` and registered file names),
+   * file extension, content of the file, or `defaultFormat` option and the default `json` format for new files.
+   */
+  source: "option" | "file-name" | "extension" | "content" | "default";
+  /** Explanation including the formats tried before. (e.g. `'.prettierrc' is a known 'json' or 'yaml' file. Parsed as 'yaml' after 'json' failed: ...`) */
+  reason: string;
+}
+
+/** Information passed to [[FormatDefinition.stringify]]. */
+export interface StringifyContext {
+  /** Path of the file. */
+  path: string;
+  /** Content of the file on disk, `undefined` for new files. Can be used to keep comments and formatting of the original content. */
+  content?: string;
+  /** Whether data is an array of YAML documents. See [[DataFile.isMultiDocument]]. */
+  multiDocument?: boolean;
+}
+
+/**
+ * Definition of a file format registered using [[registerFormat]].
+ *
+ * @example
+ * registerFormat({
+ *   name: "lines",
+ *   fileNames: [".gitignore", /^\.\w+ignore$/],
+ *   parse: (content) => ({ lines: content.split("\n").filter(Boolean) }),
+ *   stringify: (data) => `${data.lines.join("\n")}\n`,
+ * });
+ */
+export interface FormatDefinition {
+  /** Name of the format. (e.g. `hcl`) */
+  name: string;
+  /** File extensions without the leading dot. (e.g. `["hcl", "tf"]`) */
+  extensions?: string[];
+  /** File names or patterns matched against the base name of the file. Checked before extensions, but patterns do not match extensions of other formats. (e.g. `[".babelrc", /^Dockerfile(\..+)?$/]`) */
+  fileNames?: Array<string | RegExp>;
+  /** Parses content and returns data. Should throw if content cannot be parsed. */
+  parse: (content: string, path: string) => any;
+  /** Parses content which may have more than one document (e.g. multi-document YAML) and returns the documents. Used instead of `parse` if provided. */
+  parseAll?: (content: string, path: string) => any[];
+  /** Serializes data. Formats without `stringify` are read only. */
+  stringify?: (data: any, context: StringifyContext) => string;
+  /** Returns whether content is in this format. Used for files whose format cannot be determined from their names. */
+  detect?: (content: string) => boolean;
+  /** Whether files of the format can be saved. Default is `true` if `stringify` is provided. */
+  writable?: boolean;
+  /** Name of the [prettier](https://prettier.io/) parser used to format the output if a prettier configuration is found. */
+  prettierParser?: string;
+}
 
 /** @ignore */
 export type PrettierConfig = Record<string, any> | null | undefined;
@@ -26,6 +84,130 @@ export type StringDataPath = string | number | undefined | null;
 /** @ignore */
 export type DataPath = Key | Key[]; // undefined, null and empty string ("") can be key in object.
 
+/**
+ * Segment of a parsed string data path.
+ *
+ * @ignore
+ */
+export type PathSegment =
+  | { type: "key"; key: Key }
+  | { type: "wildcard" }
+  | { type: "globstar" }
+  | { type: "filter"; conditions: Array<{ path: Key[]; value: string }> };
+
+/** @ignore */
+type PreviousDepth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+/** @ignore */
+type PathKeys<T> = T extends readonly any[] ? number : keyof T & (string | number);
+
+/** @ignore */
+type PropertyOf<T, K> = T extends readonly (infer U)[]
+  ? K extends number | `${number}`
+    ? U
+    : unknown
+  : K extends keyof T
+  ? T[K]
+  : unknown;
+
+/** @ignore */
+type ChildOf<T, K> = NonNullable<PropertyOf<T, K>>;
+
+/**
+ * Dot separated data paths of type `T`. Paths below `any` or `unknown` values and deeper than `Depth` levels are not checked.
+ *
+ * @ignore
+ */
+export type DotPath<T, Depth extends number = 4> = [Depth] extends [never]
+  ? string
+  : unknown extends T
+  ? string
+  : T extends object
+  ? {
+      [K in PathKeys<T>]:
+        | `${K}`
+        | (unknown extends ChildOf<T, K> ? `${K}.${string}` : `${K}.${DotPath<ChildOf<T, K>, PreviousDepth[Depth]>}`);
+    }[PathKeys<T>]
+  : never;
+
+/**
+ * Data paths of type `T` as arrays of keys. Paths below `any` or `unknown` values and deeper than `Depth` levels are not checked.
+ *
+ * @ignore
+ */
+export type TuplePath<T, Depth extends number = 4> = [Depth] extends [never]
+  ? Key[]
+  : unknown extends T
+  ? Key[]
+  : T extends object
+  ? { [K in PathKeys<T>]: [K] | [K, ...TuplePath<ChildOf<T, K>, PreviousDepth[Depth]>] }[PathKeys<T>]
+  : never;
+
+/** @ignore */
+type DotPathValue<T, P extends string> = unknown extends T
+  ? any
+  : P extends `${infer K}.${infer Rest}`
+  ? DotPathValue<ChildOf<T, K>, Rest>
+  : PropertyOf<T, P>;
+
+/** @ignore */
+type TuplePathValue<T, P extends readonly any[]> = unknown extends T
+  ? any
+  : P extends [infer K, ...infer Rest]
+  ? Rest extends []
+    ? PropertyOf<T, K>
+    : TuplePathValue<ChildOf<T, K>, Rest>
+  : T;
+
+/**
+ * String paths with wildcard (`*`, `**`, `[]`, `[*]`) or filter (`[name=value]`) segments. (e.g. `workspaces.*.name`, `keywords[files=x]`)
+ *
+ * @ignore
+ */
+export type QueryStringPath =
+  | `*${string}`
+  | `${string}.*${string}`
+  | `${string}[]${string}`
+  | `${string}[*]${string}`
+  | `${string}[${string}=${string}]${string}`;
+
+/**
+ * String paths with bracket segments. (e.g. `dependencies["lodash.get"]`, `exports['./lib']`)
+ *
+ * @ignore
+ */
+export type BracketStringPath = `${string}[${string}]${string}`;
+
+/**
+ * Data path of the data type `T`: a dot separated string (e.g. `"compilerOptions.strict"`) or an array of keys
+ * (e.g. `["compilerOptions", "strict"]`). Empty array is used for the root. Any [[DataPath]] is accepted for untyped (`any`) data.
+ * Paths with bracket segments (e.g. `dependencies["lodash.get"]`) and query paths (e.g. `keywords[files=x]`) are accepted without checking.
+ */
+export type TypedDataPath<T> = unknown extends T ? DataPath : DotPath<T> | TuplePath<T> | [] | BracketStringPath | QueryStringPath;
+
+/**
+ * Type of the value at path `P` of the data type `T`. `any` for untyped (`any`) data. `unknown[]` for query paths,
+ * which return the values of all matched paths, and `unknown` for other paths with bracket segments.
+ */
+export type PathValue<T, P> = unknown extends T
+  ? any
+  : P extends QueryStringPath
+  ? unknown[]
+  : P extends BracketStringPath
+  ? unknown
+  : P extends string
+  ? DotPathValue<T, P>
+  : P extends readonly any[]
+  ? TuplePathValue<T, P>
+  : any;
+
+/**
+ * Type of the value to set at path `P` of the data type `T`. Query paths set the same value to each matched path.
+ *
+ * @ignore
+ */
+export type PathSetValue<T, P> = unknown extends T ? any : P extends QueryStringPath ? unknown : PathValue<T, P>;
+
 export type PredicateFunction =
   /**
    * Callback function to test whether operation should be performed. If result is false, operation is not performed.
@@ -52,16 +234,136 @@ export type ValueFunction =
    */
   (value: any, key: Key, data: object, path: Key[], dataFile: DataFile) => any;
 
+/**
+ * Strategy to merge arrays in [[DataFile.merge]].
+ *
+ * * `merge`: Merges arrays by index. (Default `lodash.merge` behaviour)
+ * * `replace`: Replaces target array with source array.
+ * * `concat`: Appends all items of source array to target array.
+ * * `union`: Appends items of source array which are not in target array.
+ * * `{ unionBy: key }`: Merges items having same value at given key (or same value returned from given function), and appends others.
+ */
+export type ArrayMergeStrategy = "merge" | "replace" | "concat" | "union" | { unionBy: string | ((item: any) => any) };
+
+export type ItemPredicate =
+  /**
+   * Callback function to test whether an array item matches.
+   *
+   * @param item is the array item to test.
+   * @param index is the index of the item.
+   * @param array is the array.
+   * @returns whether item matches.
+   */
+  (item: any, index: number, array: any[]) => boolean;
+
+/**
+ * Strategy used by [[DataFile.save]] when the file is changed on disk after it is loaded or saved.
+ *
+ * * `overwrite`: Overwrites the file. (Default)
+ * * `throw`: Throws [[ConflictError]].
+ * * `merge`: Applies keys modified using [[DataFile]] methods onto the data on disk. Throws [[ConflictError]] if a key is changed
+ *   both on disk and in memory with different values.
+ */
+export type ConflictStrategy = "overwrite" | "throw" | "merge";
+
+/** State of a value in the data. */
+export interface ValueState {
+  /** Whether the path exists. */
+  exists: boolean;
+  /** Value at the path. `undefined` if the path does not exist. */
+  value?: any;
+}
+
+/** Operation recorded in the history of the [[DataFile]]. See [[DataFile.getHistory]]. */
+export interface HistoryEntry {
+  /** Name of the method. (e.g. `set`, `delete`, `merge`, `sortKeys`, `appendItems`) */
+  op: string;
+  /** Data path modified by the operation. Empty array is used for the root. */
+  path: Key[];
+  /** State of the value at the path before the operation. */
+  before: ValueState;
+  /** State of the value at the path after the operation. */
+  after: ValueState;
+  /** Data paths of the missing parents created by the operation, from the shallowest to the deepest. (e.g. `["a"]` for `set("a.b", 1)`) */
+  createdPaths?: Key[][];
+}
+
+/**
+ * [RFC 6902](https://tools.ietf.org/html/rfc6902) JSON Patch operation. Paths are JSON Pointers (e.g. `/scripts/build`).
+ * [[DataFile.applyPatch]] also accepts dot separated data paths (e.g. `scripts.build`).
+ */
+export interface JsonPatchOperation {
+  /** Name of the operation. */
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  /** JSON Pointer of the target location. */
+  path: string;
+  /** JSON Pointer of the source location for `move` and `copy` operations. */
+  from?: string;
+  /** Value to add, replace or test. */
+  value?: any;
+}
+
+/**
+ * Options of the interpolation. Placeholders are resolved by [[DataFile.get]], while [[DataFile.data]] keeps them as they are.
+ * `${env.NAME}` is replaced with an environment variable, `${scripts.build}` with a key of the same file and
+ * `${package.json:version}` with a key of another file. `$${...}` is used for a literal `${...}`.
+ */
+export interface InterpolationOptions {
+  /** Environment variables used for `${env.NAME}` placeholders. (Default: `process.env`) */
+  env?: Record<string, string | undefined>;
+  /** Whether to write placeholders as they are. If `false`, resolved values are written when the file is saved. (Default: `true`) */
+  preserve?: boolean;
+  /** Returns the file for `${file:path}` placeholders. [[Manager]] provides the files loaded by it. */
+  getFile?: (path: string) => { path: string; data: any } | undefined;
+}
+
 /** [[Manager.fromData]] options. */
 export interface ManagerFromDataOptions {
   /** The default format to be used if file format cannot be determined from file name and content. */
   defaultFormat?: WritableFileFormat;
+  /** Format to parse and serialize the file with, regardless of its name and content. (e.g. `yaml` for an extensionless `.prettierrc`) */
+  format?: FileFormat;
   /** If only some part of the data/config will be used, this is the data path to be used. For example if this is `scripts`, only `script` key of the data is loaded. */
   rootDataPath?: DataPath;
   /** Whether file can be saved using this library. */
   readOnly?: boolean;
   /** Whether to save file only if data is changed. Clones initial data deeply to check during save. */
   saveIfChanged?: boolean;
+  /**
+   * JSON Schema to validate data with. If not provided, schema is resolved from `$schema` key of the data or from built-in schemas
+   * of the well known files (`package.json` and `tsconfig.json`). Set `false` to disable validation.
+   */
+  schema?: object | false;
+  /** Whether to throw instead of saving file if data is not valid according to the schema. */
+  validateOnSave?: boolean;
+  /** What to do if the file is changed on disk after it is loaded or saved. See [[ConflictStrategy]]. */
+  onConflict?: ConflictStrategy;
+  /** Whether to resolve placeholders (e.g. `${env.CI}`) in values returned by [[DataFile.get]]. See [[InterpolationOptions]]. */
+  interpolate?: boolean | InterpolationOptions;
+  /** Whether data of a new YAML file is an array of documents to be written as a multi-document file. Determined from the content for existing files. */
+  multiDocument?: boolean;
+}
+
+/**
+ * Location of a cosmiconfig configuration: `package.json` for the `packageProp` key of `package.json` or a file name. (e.g. `.{module}rc.yml`)
+ * Locations are relative to the `searchFrom` directory, and `{module}` is replaced with the module name.
+ */
+export type CosmiconfigLocation = "package.json" | (string & Record<never, never>);
+
+/** `cosmiconfig` option of [[Manager.load]] and [[DataFile.load]]. */
+export interface CosmiconfigLoadOptions {
+  /** Cosmiconfig options. See {@link https://www.npmjs.com/package/cosmiconfig#cosmiconfigoptions cosmiconfig options}. */
+  options?: CosmiconfigOptions;
+  /** Directory to start search from. Also the directory a new configuration is created in. */
+  searchFrom?: string;
+  /**
+   * Locations to create the configuration at if it is not found, in the order of preference. `package.json` is skipped if it does not
+   * exist. Locations must be in the `searchPlaces` of cosmiconfig, so the configuration is found once it is saved. (Default: `[".{module}rc"]`)
+   *
+   * @example
+   * { createAt: ["package.json", ".{module}rc.yml"] }
+   */
+  createAt?: CosmiconfigLocation[];
 }
 
 /** [[Manager.load]] options. */
@@ -69,7 +371,28 @@ export interface ManagerLoadOptions extends ManagerFromDataOptions {
   /** The default data to be used if file does not exist. */
   defaultData?: any;
   /** Whether to use {@link cosmiconfig https://www.npmjs.com/package/cosmiconfig} to load configuration. Set `true` for default cosmiconfig options or provide an object with `options` for cosmiconfig options and `searchFrom` to provide `cosmiconfig.search()` parameter. */
-  cosmiconfig?: boolean | { options?: CosmiconfigOptions; searchFrom?: string };
+  cosmiconfig?: boolean | CosmiconfigLoadOptions;
+}
+
+/** [[Manager.loadGlob]] options. */
+export interface ManagerGlobOptions extends Omit<ManagerLoadOptions, "cosmiconfig"> {
+  /** Whether to skip files ignored by `.gitignore` files. (Default: `true`) */
+  gitignore?: boolean;
+  /** Glob patterns of the files to skip. `node_modules` and `.git` are always skipped. */
+  ignore?: string[];
+  /** Whether to load only the files in the workspace packages defined by `workspaces` of `package.json` or `pnpm-workspace.yaml`. */
+  workspaces?: boolean;
+}
+
+/** [[Manager.loadExtendsChain]] options. Load options are used only for the loaded file, not for the files it extends. */
+export interface ManagerExtendsOptions extends ManagerLoadOptions {
+  /** Data path of the key listing the extended files. (Default: `extends`) */
+  extendsKey?: DataPath;
+  /**
+   * Resolves the path of an extended file. Should return `undefined` if specifier is not a file, such as `eslint:recommended`.
+   * Default resolver supports relative paths and packages.
+   */
+  resolve?: (specifier: string, fromPath: string) => string | undefined | Promise<string | undefined>;
 }
 
 /** [[DataFile.fromData]] options. */
@@ -80,6 +403,8 @@ export interface DataFileFromDataOptions extends ManagerFromDataOptions {
   rootDir?: string;
   /** Prettier configuration to be used. If not provided determined automatically. */
   prettierConfig?: PrettierConfig;
+  /** Whether [[DataFile.save]] should only report changes instead of writing the file by default. */
+  dryRun?: boolean;
 }
 
 /** [[DatFile.load]] options. */
@@ -87,5 +412,183 @@ export interface DataFileLoadOptions extends DataFileFromDataOptions {
   /** If only some part of the data/config will be used, this is the data path to be used. For example if this is `scripts`, only `script` key of the data is loaded. */
   defaultData?: object;
   /** Whether to use {@link cosmiconfig https://www.npmjs.com/package/cosmiconfig} to load configuration. Set `true` for default cosmiconfig options or provide an object with `options` for cosmiconfig options and `searchFrom` to provide `cosmiconfig.search()` parameter. */
-  cosmiconfig?: boolean | { options?: CosmiconfigOptions; searchFrom?: string };
+  cosmiconfig?: boolean | CosmiconfigLoadOptions;
+}
+
+/** [[DataFile.convert]] and [[Manager.convert]] options. */
+export interface ConvertOptions {
+  /** Format of the new file. Determined from the new path if not provided. */
+  format?: WritableFileFormat;
+  /** Whether to delete the original file, or the related key for configuration stored in another file. (e.g. `prettier` key of `package.json`) */
+  deleteOriginal?: boolean;
+  /** Whether to overwrite the new file if it already exists. */
+  overwrite?: boolean;
+  /** Data path in the new file to write data to. Used to move configuration into another file. (e.g. `prettier` key of `package.json`) */
+  rootDataPath?: DataPath;
+  /** Whether to only report changes without writing or deleting files. */
+  dryRun?: boolean;
+  /** Winston compatible logger to be used when logging. */
+  logger?: Logger;
+}
+
+/** Declarative condition of a [[RecipeOperation]]. All of the provided checks must pass. */
+export interface RecipeCondition {
+  /** Data path of the value to test. Defaults to the path of the operation. */
+  path?: DataPath;
+  /** Whether value should exist or not. */
+  exists?: boolean;
+  /** Value should be deeply equal to this. */
+  equals?: any;
+  /** Value should not be deeply equal to this. */
+  notEquals?: any;
+  /** Array or string value should include this. */
+  includes?: any;
+  /** All of the conditions should pass. */
+  all?: RecipeCondition[];
+  /** Any of the conditions should pass. */
+  any?: RecipeCondition[];
+  /** Condition should not pass. */
+  not?: RecipeCondition;
+}
+
+/** Operation of a [[Recipe]], which is applied using related [[DataFile]] method. */
+export interface RecipeOperation {
+  /** Name of the [[DataFile]] method. */
+  op: "set" | "delete" | "deleteEmptyPath" | "merge" | "sortKeys" | "appendItems" | "prependItems" | "insertItems" | "removeItems";
+  /** Data path to apply operation. Defaults to the root for `merge` and `sortKeys`. */
+  path?: DataPath;
+  /** Value for `set` and `merge` operations. */
+  value?: any;
+  /** Items for `appendItems`, `prependItems`, `insertItems` and `removeItems` operations. */
+  items?: any[];
+  /** Whether to skip existing items for `appendItems`, `prependItems` and `insertItems` operations. */
+  unique?: boolean;
+  /** Item to insert before for `insertItems` operation. */
+  before?: any;
+  /** Item to insert after for `insertItems` operation. */
+  after?: any;
+  /** Array merge strategy for `merge` operation. */
+  arrayMerge?: ArrayMergeStrategy;
+  /** Keys to put at the beginning for `sortKeys` operation. */
+  start?: string[];
+  /** Keys to put at the end for `sortKeys` operation. */
+  end?: string[];
+  /** Condition to test whether operation should be applied. */
+  if?: RecipeCondition;
+}
+
+/** File entry of a [[Recipe]]. Other than `path` and `operations`, [[Manager.load]] options can be provided. */
+export interface RecipeFile extends ManagerLoadOptions {
+  /** Path of the file relative to the root of the [[Manager]], or module name if `cosmiconfig` is used. */
+  path: string;
+  /** Operations to apply in order. */
+  operations: RecipeOperation[];
+}
+
+/** Declarative list of operations to be applied by [[Manager.applyRecipe]]. Can be stored as a JSON or YAML file. */
+export interface Recipe {
+  /** Files to edit. */
+  files: RecipeFile[];
+}
+
+/** Result of an operation applied by [[Manager.applyRecipe]]. */
+export interface RecipeOperationResult {
+  /** Path of the file. */
+  file: string;
+  /** Name of the operation. */
+  op: RecipeOperation["op"];
+  /** Data path of the operation. Empty string is used for the root. */
+  path: string;
+  /** Whether operation is applied. `false` if condition is not passed. */
+  applied: boolean;
+}
+
+/** Report of the [[Manager.applyRecipe]]. */
+export interface RecipeReport {
+  /** Results of the operations in the order they are applied. */
+  operations: RecipeOperationResult[];
+  /** Paths of the files having at least one applied operation. */
+  modified: string[];
+}
+
+/** Error returned from [[DataFile.validate]]. */
+export interface ValidationError {
+  /** Data path of the invalid value. */
+  path: Key[];
+  /** Error message. */
+  message: string;
+  /** JSON Schema keyword which failed. (e.g. `type`, `required`, `additionalProperties`) */
+  keyword: string;
+}
+
+/** Status of the file after save or dry run. */
+export type SaveStatus = "created" | "changed" | "unchanged";
+
+/** Result of the [[DataFile.save]]. */
+export interface SaveResult {
+  /** Path of the file. */
+  path: string;
+  /** Whether file is (or would be in dry run) created, changed or left untouched. */
+  status: SaveStatus;
+  /** Unified diff between the content on disk and the serialized content. Empty if file is unchanged. */
+  diff: string;
+}
+
+/** Result of the [[Manager.saveAll]]. */
+export interface SaveAllResult {
+  /** Results of all saved files. */
+  files: SaveResult[];
+  /** Paths of the created files. */
+  created: string[];
+  /** Paths of the changed files. */
+  changed: string[];
+  /** Paths of the files left untouched. */
+  unchanged: string[];
+}
+
+/** Status of a file after [[Manager.editAll]]. */
+export type EditStatus = "modified" | "unchanged" | "failed";
+
+/** Result of the edit of a file in [[Manager.editAll]]. */
+export interface EditResult {
+  /** Path of the file. */
+  path: string;
+  /** Whether data is modified, left unchanged or edit failed. Changes of the failed edits are reverted. */
+  status: EditStatus;
+  /** Data paths changed by the edit. Empty string is used for the root. */
+  changedPaths: string[];
+  /** Error thrown by the edit function, if edit failed. */
+  error?: Error;
+}
+
+/** Event of the [[Manager]] emitted when a watched file is changed on disk. */
+export interface FileChangeEvent {
+  /** Changed data file. */
+  dataFile: DataFile;
+  /** Path of the changed file. */
+  path: string;
+  /** Data paths changed on disk. Empty string is used for the root. */
+  changedPaths: string[];
+}
+
+/** Events emitted by the [[Manager]] in watch mode. */
+export interface ManagerEvents {
+  /** File is changed on disk and reloaded. */
+  change: (event: FileChangeEvent) => void;
+  /** File is changed on disk, but not reloaded, because data has unsaved modifications. */
+  conflict: (event: FileChangeEvent) => void;
+  /** File is changed on disk, but cannot be reloaded (e.g. content cannot be parsed), or its directory cannot be watched anymore. */
+  error: (error: Error, dataFile: DataFile) => void;
+}
+
+/** @ignore */
+export interface StagedFile {
+  /** Result of the save. */
+  result: SaveResult;
+  /** Path of the temporary file which contains new content. `undefined` if there is nothing to write. */
+  tempPath?: string;
+  /** Content of the file before save or `undefined` if file does not exist. */
+  original?: string;
+  /** Updates state of the [[DataFile]] after temporary file is moved into place. */
+  commit: () => void;
 }
@@ -0,0 +1,49 @@
+import { join, posix } from "path";
+import globby from "globby";
+import { readData } from "./helper";
+
+/** Glob patterns which are always ignored. */
+const ALWAYS_IGNORED = ["**/node_modules/**", "**/.git/**"];
+
+/**
+ * Finds files matching given glob patterns. Negated patterns (e.g. `!packages/legacy/**`) exclude matches.
+ *
+ * @ignore
+ * @param root is the directory to search in. Returned paths are relative to it.
+ * @param patterns are the glob patterns.
+ * @param gitignore is whether to skip files ignored by `.gitignore` files.
+ * @param ignore are glob patterns to skip in addition to `node_modules`.
+ * @returns sorted relative paths with forward slashes.
+ */
+export async function findPaths(
+  root: string,
+  patterns: string | string[],
+  { gitignore = true, ignore = [] }: { gitignore?: boolean; ignore?: string[] } = {}
+): Promise<string[]> {
+  const paths = await globby(patterns, { cwd: root, gitignore, ignore: [...ALWAYS_IGNORED, ...ignore], dot: true });
+  return paths.sort();
+}
+
+/**
+ * Returns workspace package directories defined by `workspaces` of the `package.json` (npm and yarn) and `packages`
+ * of the `pnpm-workspace.yaml` in the root directory. Only directories containing a `package.json` are workspace packages.
+ *
+ * @ignore
+ * @param root is the root directory of the monorepo.
+ * @param gitignore is whether to skip directories ignored by `.gitignore` files.
+ * @returns sorted relative paths of the workspace directories. Empty if no workspace is defined.
+ */
+export async function getWorkspacePaths(root: string, { gitignore = true }: { gitignore?: boolean } = {}): Promise<string[]> {
+  const [packageJson, pnpmWorkspace] = await Promise.all([
+    readData(join(root, "package.json"), {}),
+    readData(join(root, "pnpm-workspace.yaml"), {}),
+  ]);
+  const { workspaces } = packageJson.data;
+  const patterns: string[] = [
+    ...(Array.isArray(workspaces) ? workspaces : workspaces?.packages ?? []),
+    ...(pnpmWorkspace.data.packages ?? []),
+  ].map((pattern: string) => `${pattern.replace(/\/+$/, "")}/package.json`);
+
+  if (patterns.filter((pattern) => !pattern.startsWith("!")).length === 0) return [];
+  return (await findPaths(root, patterns, { gitignore })).map((path) => posix.dirname(path));
+}
@@ -0,0 +1,383 @@
+import YAML from "yaml";
+import { Type } from "yaml/util";
+import type { Node, Pair, Scalar, YAMLMap, YAMLSeq } from "yaml/types";
+import isEqual from "lodash.isequal";
+import { isObject, isIdentical, getCommonSubsequence } from "./helper";
+
+/** @ignore */
+interface PatchContext {
+  /** Original YAML content. */
+  content: string;
+  /** Stringify options used for newly rendered nodes. */
+  options: YAML.Options;
+}
+
+/** @ignore */
+interface Block {
+  /** Comments, blank lines and indentation before the item, starting from the beginning of the line. */
+  leading: string;
+  /** Item text starting from the key or the dash of the sequence item, including the trailing new line. */
+  body: string;
+}
+
+/** @ignore */
+const PARSE_OPTIONS: YAML.Options = { keepCstNodes: true, merge: true, customTags: ["timestamp"] };
+
+/**
+ * Returns zero based column of the given position in the content.
+ *
+ * @ignore
+ */
+function getColumn(content: string, position: number): number {
+  return position - (content.lastIndexOf("\n", position - 1) + 1);
+}
+
+/**
+ * Returns the position after the new line character of the line containing the character just before given position.
+ *
+ * @ignore
+ */
+function getLineEnd(content: string, position: number): number {
+  if (position > 0 && content[position - 1] === "\n") return position;
+  const index = content.indexOf("\n", position);
+  return index === -1 ? content.length : index + 1;
+}
+
+/**
+ * Indents all lines except the first line of the given text.
+ *
+ * @ignore
+ */
+function indentRest(text: string, column: number): string {
+  const indent = " ".repeat(column);
+  return text.replace(/\n(?=.)/g, `\n${indent}`);
+}
+
+/**
+ * Returns text of block to be placed at the beginning of a collection, where the column is already indented by the preceding text.
+ *
+ * @ignore
+ */
+function firstBlockText(block: Block, column: number): string {
+  const leading = block.leading.replace(/^(?:[ \t]*\n)+/, "").replace(new RegExp(`^ {0,${column}}`), "");
+  return `${leading}${block.body}`;
+}
+
+/**
+ * Joins given blocks into a collection text.
+ *
+ * @ignore
+ */
+function joinBlocks(blocks: Block[], column: number): string {
+  return blocks.map((block, index) => (index === 0 ? firstBlockText(block, column) : `${block.leading}${block.body}`)).join("");
+}
+
+/**
+ * Ensures given text ends with a new line.
+ *
+ * @ignore
+ */
+function withNewLine(text: string): string {
+  return text.endsWith("\n") ? text : `${text}\n`;
+}
+
+/**
+ * Removes the new line at the end of the patched collection text, if original text does not end with a new line (e.g. at the end of the file).
+ *
+ * @ignore
+ */
+function withTail(content: string, [start, end]: [number, number], text: string): string {
+  return content.slice(start, end).endsWith("\n") ? text : text.replace(/\n$/, "");
+}
+
+/**
+ * Returns start and end positions of the source text of the node. Comments after the scalars are excluded,
+ * block collections are extended to the end of their last line.
+ *
+ * @ignore
+ */
+function getSpan(context: PatchContext, node: Node): [number, number] {
+  const valueRange = (node.cstNode as any)?.valueRange;
+  const [start, end] = node.range as [number, number];
+  if (valueRange && [Type.PLAIN, Type.QUOTE_DOUBLE, Type.QUOTE_SINGLE].includes(node.type as Type))
+    return [valueRange.start, valueRange.start + context.content.slice(valueRange.start, valueRange.end).trimEnd().length];
+  if (node.type === Type.MAP || node.type === Type.SEQ) return [start, getLineEnd(context.content, end)];
+  return [start, end];
+}
+
+/**
+ * Renders given value as a single line YAML scalar using the quote style of the original node if possible.
+ *
+ * @ignore
+ */
+function renderScalar(value: any, type: Type | undefined): string | undefined {
+  if (typeof value === "string" && type === Type.QUOTE_DOUBLE) return JSON.stringify(value);
+  if (typeof value === "string" && type === Type.QUOTE_SINGLE && !value.includes("\n")) return `'${value.replace(/'/g, "''")}'`;
+  const text = YAML.stringify(value).replace(/\n$/, "");
+  if (!text.includes("\n")) return text;
+  return typeof value === "string" ? JSON.stringify(value) : undefined;
+}
+
+/**
+ * Renders given value as a scalar safe to be used in flow collections.
+ *
+ * @ignore
+ */
+function renderFlowScalar(value: any): string {
+  const text = renderScalar(value, undefined) as string;
+  return typeof value === "string" && /[,[\]{}]/.test(text) && !text.startsWith('"') ? JSON.stringify(value) : text;
+}
+
+/**
+ * Renders given value as a flow collection (e.g. `[ a, b ]` or `{ a: 1 }`).
+ *
+ * @ignore
+ */
+function renderFlow(value: any): string {
+  if (Array.isArray(value)) return value.length === 0 ? "[]" : `[ ${value.map(renderFlow).join(", ")} ]`;
+  if (isObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => `${renderFlowScalar(key)}: ${renderFlow(item)}`);
+    return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+  }
+  return renderFlowScalar(value);
+}
+
+/**
+ * Renders a key/value pair as a block. Lines other than first line are indented to given column.
+ *
+ * @ignore
+ */
+function renderPair(context: PatchContext, key: string, value: any, column: number): string {
+  return indentRest(YAML.stringify({ [key]: value }, context.options), column);
+}
+
+/**
+ * Renders a sequence item as a block. Lines other than first line are indented to given column.
+ *
+ * @ignore
+ */
+function renderItem(context: PatchContext, value: any, column: number): string {
+  return indentRest(YAML.stringify([value], context.options), column);
+}
+
+/**
+ * Returns the new source text of the given block map.
+ *
+ * @ignore
+ */
+function patchMap(context: PatchContext, node: YAMLMap, oldValue: any, newValue: any): string | undefined {
+  const { content } = context;
+  const items = node.items as Pair[];
+  if (!isObject(oldValue) || !isObject(newValue) || Object.keys(newValue).length === 0 || items.length === 0) return undefined;
+  if (items.some((item) => !item.key || !item.key.range || typeof item.key !== "object")) return undefined;
+
+  const isMerge = (item: Pair): boolean => item.type === "MERGE_PAIR";
+  const ownKeys = items.filter((item) => !isMerge(item)).map((item) => String((item.key as Scalar).value));
+  const mergedKeys = Object.keys(oldValue).filter((key) => !ownKeys.includes(key));
+  if (mergedKeys.some((key) => !isEqual(oldValue[key], newValue[key]))) return undefined;
+
+  const [start, end] = getSpan(context, node);
+  const firstKeyStart = items[0].key.range[0];
+  const column = getColumn(content, firstKeyStart);
+  const blocks: Array<Block & { key?: string; index: number }> = [];
+  let cursor = firstKeyStart;
+
+  for (let index = 0; index < items.length; index += 1) {
+    const item = items[index];
+    const keyStart = item.key.range[0];
+    const bodyEnd = getLineEnd(content, Math.max(item.key.range[1], item.value?.range?.[1] ?? 0));
+    const leading = index === 0 ? " ".repeat(column) : content.slice(cursor, keyStart);
+    const key = isMerge(item) ? undefined : String((item.key as Scalar).value);
+    let body = content.slice(keyStart, bodyEnd);
+
+    if (key !== undefined && Object.prototype.hasOwnProperty.call(newValue, key) && !isIdentical(oldValue[key], newValue[key])) {
+      const patched = patchNode(context, item.value, oldValue[key], newValue[key]); // eslint-disable-line no-use-before-define
+      if (patched === undefined) body = renderPair(context, key, newValue[key], column);
+      else {
+        const [valueStart, valueEnd] = getSpan(context, item.value);
+        body = `${content.slice(keyStart, valueStart)}${patched}${content.slice(valueEnd, bodyEnd)}`;
+      }
+    }
+
+    blocks.push({ key, index, leading, body: withNewLine(body) });
+    cursor = bodyEnd;
+  }
+
+  const newKeys = Object.keys(newValue).filter((key) => !mergedKeys.includes(key));
+  const keptKeys = ownKeys.filter((key) => newKeys.includes(key));
+  const isReordered = !isEqual(
+    newKeys.filter((key) => keptKeys.includes(key)),
+    Object.keys(oldValue).filter((key) => keptKeys.includes(key))
+  );
+  const orderedKeys = isReordered ? newKeys : [...keptKeys, ...newKeys.filter((key) => !ownKeys.includes(key))];
+
+  const result: Block[] = orderedKeys.map(
+    (key) =>
+      blocks.find((block) => block.key === key) || { leading: " ".repeat(column), body: renderPair(context, key, newValue[key], column) }
+  );
+  blocks.filter((block) => block.key === undefined).forEach((block) => result.splice(Math.min(block.index, result.length), 0, block));
+
+  return withTail(
+    content,
+    [start, end],
+    `${content.slice(start, firstKeyStart)}${joinBlocks(result, column)}${content.slice(cursor, end)}`
+  );
+}
+
+/**
+ * Returns the new source text of the given block sequence. Items are matched using longest common subsequence,
+ * so that inserted and removed items do not cause other items to be rendered again.
+ *
+ * @ignore
+ */
+function patchSeq(context: PatchContext, node: YAMLSeq, oldValue: any, newValue: any): string | undefined {
+  const { content } = context;
+  const items = node.items as Node[];
+  if (!Array.isArray(oldValue) || !Array.isArray(newValue) || newValue.length === 0 || items.length !== oldValue.length) return undefined;
+  if (items.some((item) => !item || !item.range)) return undefined;
+
+  const [start, end] = getSpan(context, node);
+  const dashes = items.map((item) => content.lastIndexOf("-", (item.range as [number, number])[0] - 1));
+  const column = getColumn(content, dashes[0]);
+  const bodyEnds = items.map((item) => getLineEnd(content, (item.range as [number, number])[1]));
+  const cursor = bodyEnds[bodyEnds.length - 1];
+  const blocks: Block[] = items.map((item, index) => ({
+    leading: index === 0 ? " ".repeat(column) : content.slice(bodyEnds[index - 1], dashes[index]),
+    body: withNewLine(content.slice(dashes[index], bodyEnds[index])),
+  }));
+
+  const patchItem = (oldIndex: number, value: any): Block => {
+    const item = items[oldIndex];
+    const patched = patchNode(context, item, oldValue[oldIndex], value); // eslint-disable-line no-use-before-define
+    if (patched === undefined) return { leading: blocks[oldIndex].leading, body: renderItem(context, value, column) };
+    const [itemStart, itemEnd] = getSpan(context, item);
+    const body = `${content.slice(dashes[oldIndex], itemStart)}${patched}${content.slice(itemEnd, bodyEnds[oldIndex])}`;
+    return { leading: blocks[oldIndex].leading, body: withNewLine(body) };
+  };
+
+  const result: Block[] = [];
+  const matches = getCommonSubsequence(oldValue, newValue);
+  let [oldCursor, newCursor] = [0, 0];
+
+  [...matches, [oldValue.length, newValue.length]].forEach(([oldIndex, newIndex]) => {
+    for (; newCursor < newIndex; newCursor += 1, oldCursor += 1) {
+      const value = newValue[newCursor];
+      if (oldCursor < oldIndex) result.push(patchItem(oldCursor, value));
+      else result.push({ leading: " ".repeat(column), body: renderItem(context, value, column) });
+    }
+    if (oldIndex < oldValue.length) result.push(blocks[oldIndex]);
+    [oldCursor, newCursor] = [oldIndex + 1, newIndex + 1];
+  });
+
+  return withTail(content, [start, end], `${content.slice(start, dashes[0])}${joinBlocks(result, column)}${content.slice(cursor, end)}`);
+}
+
+/**
+ * Returns the new source text of the given node after applying changes between old and new values.
+ *
+ * @ignore
+ * @returns new text of the node or `undefined` if node cannot be patched and should be rendered again by the parent.
+ */
+function patchNode(context: PatchContext, node: Node | null, oldValue: any, newValue: any): string | undefined {
+  if (!node || !node.range) return undefined;
+  const [start, end] = getSpan(context, node);
+  if (isIdentical(oldValue, newValue)) return context.content.slice(start, end);
+
+  switch (node.type) {
+    case Type.PLAIN:
+    case Type.QUOTE_DOUBLE:
+    case Type.QUOTE_SINGLE:
+      return typeof newValue === "object" && newValue !== null && !(newValue instanceof Date)
+        ? undefined
+        : renderScalar(newValue, node.type);
+    case Type.FLOW_MAP:
+      return isObject(newValue) ? renderFlow(newValue) : undefined;
+    case Type.FLOW_SEQ:
+      return Array.isArray(newValue) ? renderFlow(newValue) : undefined;
+    case Type.MAP:
+      return patchMap(context, node as YAMLMap, oldValue, newValue);
+    case Type.SEQ:
+      return patchSeq(context, node as YAMLSeq, oldValue, newValue);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Applies changes in the data to the YAML content by only modifying the source text of the changed nodes.
+ * Comments, anchors, quoting and blank lines of untouched nodes are kept as is.
+ *
+ * @ignore
+ * @param content is the original YAML content.
+ * @param data is the new data to be written.
+ * @returns updated YAML content.
+ * @throws if content cannot be parsed.
+ */
+export function patchYaml(content: string, data: any): string {
+  const document = YAML.parseDocument(content, PARSE_OPTIONS);
+  if (document.errors.length > 0) throw document.errors[0];
+
+  const oldData = document.toJSON();
+  if (isIdentical(oldData, data)) return content;
+
+  // Block sequences are indented relative to their parent keys unless source content uses non-indented sequences.
+  const indentSeq = !/^( *)[^\s#-][^\n]*:[ \t]*\n\1- /m.test(content);
+  const context: PatchContext = { content, options: { indentSeq } };
+  const root = document.contents as Node | null;
+  const patched = root && root.range ? patchNode(context, root, oldData, data) : undefined;
+
+  if (patched !== undefined) {
+    const [start, end] = getSpan(context, root as Node);
+    const result = `${content.slice(0, start)}${patched}${content.slice(end)}`;
+    // Anchors modified through one of their aliases may cause different data. Verify result before returning.
+    if (isEqual(YAML.parse(result, PARSE_OPTIONS), data)) return result;
+  }
+
+  document.contents = YAML.createNode(data) as any;
+  return String(document);
+}
+
+/**
+ * Returns the start positions of the documents in a multi-document YAML content. First document starts at the beginning of
+ * the content, including comments and directives before its `---` marker.
+ *
+ * @ignore
+ * @param content is the YAML content.
+ * @param count is the number of the documents in the content.
+ * @returns start positions or `undefined` if markers cannot be matched with the documents.
+ */
+function getDocumentStarts(content: string, count: number): number[] | undefined {
+  const markers: number[] = [];
+  const pattern = /^---(?=[ \t]|\r?\n|$)/gm;
+  for (let match = pattern.exec(content); match; match = pattern.exec(content)) markers.push(match.index);
+  if (markers.length === count - 1) return [0, ...markers];
+  return markers.length === count ? [0, ...markers.slice(1)] : undefined;
+}
+
+/**
+ * Applies changes in the documents to the multi-document YAML content. Documents are matched by index and each document is
+ * patched individually like [[patchYaml]], so document order, separators and comments are kept. Extra documents are
+ * removed from the end and new documents are appended after a `---` marker.
+ *
+ * @ignore
+ * @param content is the original YAML content.
+ * @param documents are the new documents to be written.
+ * @returns updated YAML content.
+ * @throws if content cannot be parsed.
+ */
+export function patchYamlDocuments(content: string, documents: any[]): string {
+  const oldDocuments = YAML.parseAllDocuments(content, PARSE_OPTIONS);
+  const errors = oldDocuments.reduce((result, document) => [...result, ...document.errors], [] as Error[]);
+  if (errors.length > 0) throw errors[0];
+
+  const starts = getDocumentStarts(content, oldDocuments.length);
+  if (!starts) return documents.map((document) => YAML.stringify(document)).join("---\n");
+
+  const chunks = starts.slice(0, documents.length).map((start, index) => {
+    const patched = patchYaml(content.slice(start, starts[index + 1]), documents[index]);
+    // Documents rendered again may lose their marker, which separates them from the previous document.
+    return index === 0 || patched.startsWith("---") ? patched : `---\n${patched}`;
+  });
+  const added = documents.slice(starts.length).map((document) => `---\n${YAML.stringify(document)}`);
+  return [...chunks, ...added].reduce((result, chunk) => (result === "" || result.endsWith("\n") ? result : `${result}\n`) + chunk, "");
+}
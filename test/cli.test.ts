@@ -0,0 +1,89 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, outputFile, readJson, remove } from "fs-extra";
+import { cli } from "../src";
+
+let root: string;
+
+const run = async (...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> => {
+  const output = { stdout: "", stderr: "" };
+  const stdout = { write: (text: string) => (output.stdout += text) }; // eslint-disable-line no-return-assign
+  const stderr = { write: (text: string) => (output.stderr += text) }; // eslint-disable-line no-return-assign
+  const code = await cli([...args, "--root", root], { stdout, stderr });
+  return { code, ...output };
+};
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "edit-config-"));
+  await outputFile(join(root, "package.json"), JSON.stringify({ name: "a", scripts: { test: "jest" }, "a.b": 1 }, null, 2));
+});
+
+afterEach(() => remove(root));
+
+describe("cli", () => {
+  it("should get values.", async () => {
+    expect(await run("get", "package.json", "name")).toEqual({ code: 0, stdout: "a\n", stderr: "" });
+    expect((await run("get", "package.json", "scripts")).stdout).toBe('{\n  "test": "jest"\n}\n');
+    expect((await run("get", "package.json", '["a.b"]')).stdout).toBe("1\n");
+    expect((await run("get", "package.json", "['a.b']")).stdout).toBe("1\n");
+    expect((await run("get", "package.json", "missing")).code).toBe(1);
+  });
+
+  it("should test whether path exists.", async () => {
+    expect((await run("has", "package.json", "scripts.test")).code).toBe(0);
+    expect((await run("has", "package.json", "scripts.build")).code).toBe(1);
+  });
+
+  it("should set, merge, delete and sort keys.", async () => {
+    expect((await run("set", "package.json", "scripts.build", "tsc")).code).toBe(0);
+    await run("set", "package.json", "private", "true");
+    await run("set", "package.json", "version", "1.0", "--string");
+    await run("merge", "package.json", "scripts", "{ lint: eslint }");
+    await run("merge", "package.json", '{ "files": ["dist"] }');
+    await run("delete", "package.json", '["a.b"]');
+    await run("sort-keys", "package.json", "scripts", "--start", "lint");
+
+    const data = await readJson(join(root, "package.json"));
+    expect(data).toEqual({
+      name: "a",
+      scripts: { lint: "eslint", build: "tsc", test: "jest" },
+      private: true,
+      version: "1.0",
+      files: ["dist"],
+    });
+    expect(Object.keys(data.scripts)).toEqual(["lint", "build", "test"]);
+  });
+
+  it("should edit data at root data path.", async () => {
+    await run("set", "package.json", "build", "tsc", "--root-data-path", "scripts");
+    expect((await readJson(join(root, "package.json"))).scripts).toEqual({ test: "jest", build: "tsc" });
+  });
+
+  it("should print diff without writing file in dry run.", async () => {
+    const { code, stdout } = await run("set", "package.json", "name", "b", "--dry-run");
+    expect(code).toBe(0);
+    expect(stdout).toContain('+  "name": "b",');
+    expect((await readJson(join(root, "package.json"))).name).toBe("a");
+  });
+
+  it("should exit with 1 in check mode if file would be changed.", async () => {
+    expect((await run("set", "package.json", "name", "b", "--check")).code).toBe(1);
+    expect((await run("set", "package.json", "name", "a", "--check")).code).toBe(0);
+  });
+
+  it("should apply recipe.", async () => {
+    const recipe = { files: [{ path: "package.json", operations: [{ op: "set", path: "scripts.build", value: "tsc" }] }] };
+    await outputFile(join(root, "recipe.json"), JSON.stringify(recipe));
+    expect((await run("apply", "recipe.json", "--check")).code).toBe(1);
+    expect((await run("apply", "recipe.json")).code).toBe(0);
+    expect((await readJson(join(root, "package.json"))).scripts.build).toBe("tsc");
+    expect((await run("apply", "recipe.json", "--check")).code).toBe(0);
+  });
+
+  it("should exit with 2 for errors.", async () => {
+    expect(await run("unknown", "package.json")).toMatchObject({ code: 2, stderr: "edit-config: Unknown command: unknown\n" });
+    expect(await run("set", "package.json", "name")).toMatchObject({ code: 2 });
+    expect(await run("get", "package.json", "--unknown")).toMatchObject({ code: 2, stderr: "edit-config: Unknown option: --unknown\n" });
+    expect((await run("--help")).stdout).toContain("Usage: edit-config");
+  });
+});
@@ -0,0 +1,96 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, outputFile, outputJson, remove } from "fs-extra";
+import { Manager, TsConfig } from "../src";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "edit-config-"));
+  await outputJson(join(root, "tsconfig.json"), { extends: "./tsconfig.base", compilerOptions: { outDir: "dist" }, include: ["src"] });
+  await outputJson(join(root, "tsconfig.base.json"), {
+    extends: ["@my/tsconfig/strict.json", "./configs/node.json"],
+    compilerOptions: { strict: false, lib: ["es2019"] },
+    include: ["lib"],
+  });
+  await outputJson(join(root, "configs/node.json"), { compilerOptions: { module: "commonjs", target: "es2018" } });
+  await outputJson(join(root, "node_modules/@my/tsconfig/strict.json"), { compilerOptions: { strict: true, target: "es5", noEmit: true } });
+  await outputFile(join(root, "node_modules/@my/tsconfig/package.json"), JSON.stringify({ name: "@my/tsconfig" }));
+});
+
+afterEach(() => remove(root));
+
+describe("loadExtendsChain", () => {
+  it("should load files of the chain in the order of precedence.", async () => {
+    const chain = await new Manager({ root }).loadExtendsChain<TsConfig>("tsconfig.json");
+    expect(chain.files.map((file) => file.path)).toEqual([
+      join(root, "tsconfig.json"),
+      join(root, "tsconfig.base.json"),
+      join(root, "configs/node.json"),
+      join(root, "node_modules/@my/tsconfig/strict.json"),
+    ]);
+    expect(chain.file.path).toBe(join(root, "tsconfig.json"));
+    expect(chain.unresolved).toEqual([]);
+  });
+
+  it("should use the instance of a file loaded directly.", async () => {
+    const manager = new Manager({ root });
+    const base = await manager.load("tsconfig.base.json");
+    const chain = await manager.loadExtendsChain<TsConfig>("tsconfig.json");
+    expect(chain.files[1]).toBe(base);
+    expect(await manager.load(join(root, "configs/node.json"))).toBe(chain.files[2]);
+  });
+
+  it("should provide merged read-only data.", async () => {
+    const chain = await new Manager({ root }).loadExtendsChain<TsConfig>("tsconfig.json");
+    expect(chain.data).toEqual({
+      compilerOptions: { strict: false, target: "es2018", noEmit: true, module: "commonjs", lib: ["es2019"], outDir: "dist" },
+      include: ["src"],
+    });
+    expect(chain.get("compilerOptions.target")).toBe("es2018");
+    expect(chain.has("extends")).toBe(false);
+    expect(() => {
+      (chain.data.compilerOptions as any).strict = true;
+    }).toThrow();
+  });
+
+  it("should report which file supplies a value.", async () => {
+    const chain = await new Manager({ root }).loadExtendsChain<TsConfig>("tsconfig.json");
+    expect(chain.getSource("compilerOptions.strict")?.path).toBe(join(root, "tsconfig.base.json"));
+    expect(chain.getSource("compilerOptions.noEmit")?.path).toBe(join(root, "node_modules/@my/tsconfig/strict.json"));
+    expect(chain.getSources("compilerOptions.target").map((file) => file.path)).toEqual([
+      join(root, "configs/node.json"),
+      join(root, "node_modules/@my/tsconfig/strict.json"),
+    ]);
+    expect(chain.getSource("compilerOptions.paths")).toBeUndefined();
+
+    const source = chain.getSource("compilerOptions.strict");
+    if (source) source.set("compilerOptions.strict", true);
+    expect(chain.get("compilerOptions.strict")).toBe(true);
+  });
+
+  it("should collect unresolved specifiers.", async () => {
+    await outputJson(join(root, ".eslintrc.json"), { extends: ["eslint:recommended", "./eslint-base.json"], rules: { semi: "off" } });
+    await outputJson(join(root, "eslint-base.json"), { rules: { semi: "error", quotes: "error" } });
+    const chain = await new Manager({ root }).loadExtendsChain(".eslintrc.json");
+    expect(chain.unresolved).toEqual(["eslint:recommended"]);
+    expect(chain.data).toEqual({ rules: { semi: "off", quotes: "error" } });
+  });
+
+  it("should use custom extends key and resolver.", async () => {
+    await outputJson(join(root, "renovate.json"), { presets: ["base"], automerge: true });
+    await outputJson(join(root, "presets/base.json"), { automerge: false, schedule: ["weekly"] });
+    const resolve = (specifier: string): string => join(root, "presets", `${specifier}.json`);
+    const chain = await new Manager({ root }).loadExtendsChain("renovate.json", { extendsKey: "presets", resolve });
+    expect(chain.data).toEqual({ automerge: true, schedule: ["weekly"] });
+  });
+
+  it("should throw for missing files and circular chains.", async () => {
+    await outputJson(join(root, "a.json"), { extends: "./b.json" });
+    await outputJson(join(root, "b.json"), { extends: "./a.json" });
+    await outputJson(join(root, "c.json"), { extends: "./missing.json" });
+    const manager = new Manager({ root });
+    await expect(manager.loadExtendsChain("a.json")).rejects.toThrow("circular extends a.json -> b.json -> a.json");
+    await expect(manager.loadExtendsChain("c.json")).rejects.toThrow("Cannot load extends chain: './missing.json'");
+  });
+});
@@ -0,0 +1,195 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, outputFile, readFile, pathExists, remove } from "fs-extra";
+import { Manager, DataFile } from "../src";
+
+const json = `// ESLint configuration
+{
+  // Root option
+  "root": true, // inline
+  /* Rule
+   * settings */
+  "rules": {
+    "semi": "error" // last
+  },
+  "plugins": [
+    // first plugin
+    "a",
+    "b"
+  ]
+}
+`;
+
+const yaml = `# ESLint configuration
+
+# Root option
+root: true # inline
+# Rule
+# settings
+rules:
+  semi: error # last
+plugins:
+  # first plugin
+  - a
+  - b
+`;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "edit-config-"));
+});
+
+afterEach(() => remove(dir));
+
+describe("DataFile.convert()", () => {
+  it("should convert JSON to YAML keeping comments.", async () => {
+    await outputFile(join(dir, ".eslintrc.json"), json);
+    const eslintrc = await DataFile.load(join(dir, ".eslintrc.json"));
+    const converted = await eslintrc.convert(join(dir, ".eslintrc.yml"));
+    expect(converted.formatReport.format).toBe("yaml");
+    expect(converted.data).toEqual({ root: true, rules: { semi: "error" }, plugins: ["a", "b"] });
+    expect(await readFile(join(dir, ".eslintrc.yml"), "utf8")).toBe(yaml);
+    expect(await pathExists(join(dir, ".eslintrc.json"))).toBe(true);
+  });
+
+  it("should convert YAML to JSON keeping comments and delete original file.", async () => {
+    await outputFile(join(dir, ".eslintrc.yml"), yaml);
+    const eslintrc = await DataFile.load(".eslintrc.yml", { rootDir: dir });
+    await eslintrc.convert(".eslintrc.json", { deleteOriginal: true });
+    const expected = json.replace("/* Rule\n   * settings */", "// Rule\n  // settings").trimEnd();
+    expect(await readFile(join(dir, ".eslintrc.json"), "utf8")).toBe(expected);
+    expect(await pathExists(join(dir, ".eslintrc.yml"))).toBe(false);
+    expect(eslintrc.found).toBe(false);
+  });
+
+  it("should use format option for files without extension.", async () => {
+    await outputFile(join(dir, ".prettierrc"), '{ "semi": false }');
+    const prettierrc = await DataFile.load(join(dir, ".prettierrc"));
+    await prettierrc.convert(join(dir, ".prettierrc"), { format: "yaml" });
+    expect(await readFile(join(dir, ".prettierrc"), "utf8")).toBe("semi: false\n");
+  });
+
+  it("should move a key of package.json to its own file.", async () => {
+    await outputFile(join(dir, "package.json"), JSON.stringify({ name: "a", prettier: { semi: false } }, null, 2));
+    const prettier = await DataFile.load(join(dir, "package.json"), { rootDataPath: "prettier" });
+    await prettier.convert(join(dir, ".prettierrc.yml"), { deleteOriginal: true });
+    expect(await readFile(join(dir, ".prettierrc.yml"), "utf8")).toBe("semi: false\n");
+    expect(JSON.parse(await readFile(join(dir, "package.json"), "utf8"))).toEqual({ name: "a" });
+  });
+
+  it("should throw if new file exists or format is not writable.", async () => {
+    await outputFile(join(dir, "a.json"), "{}");
+    await outputFile(join(dir, "a.yml"), "a: 1\n");
+    const file = await DataFile.load(join(dir, "a.json"));
+    await expect(file.convert(join(dir, "a.yml"))).rejects.toThrow("the file already exists");
+    await expect(file.convert(join(dir, "a.js"), { rootDataPath: "a" })).rejects.toThrow("the format is not writable");
+    await file.convert(join(dir, "a.yml"), { overwrite: true });
+    expect(await readFile(join(dir, "a.yml"), "utf8")).toBe("{}\n");
+  });
+
+  it("should create js files exporting an object literal.", async () => {
+    await outputFile(join(dir, ".eslintrc.json"), '{ "root": true }');
+    const converted = await (await DataFile.load(join(dir, ".eslintrc.json"))).convert(join(dir, ".eslintrc.js"));
+    expect(converted.readOnly).toBe(false);
+    expect(await readFile(join(dir, ".eslintrc.js"), "utf8")).toBe("module.exports = {\n  root: true\n};\n");
+  });
+
+  it("should not write or delete files in dry run.", async () => {
+    await outputFile(join(dir, "a.json"), "{}");
+    const file = await DataFile.load(join(dir, "a.json"));
+    await file.convert(join(dir, "a.yml"), { deleteOriginal: true, dryRun: true });
+    expect(await pathExists(join(dir, "a.yml"))).toBe(false);
+    expect(await pathExists(join(dir, "a.json"))).toBe(true);
+  });
+});
+
+describe("Manager.convert()", () => {
+  it("should replace cosmiconfig file in cache.", async () => {
+    await outputFile(join(dir, ".prettierrc.json"), '{ "semi": false }\n');
+    const manager = new Manager({ root: dir });
+    const original = await manager.load("prettier", { cosmiconfig: { searchFrom: dir } });
+    const converted = await manager.convert(original, ".prettierrc.yml", { deleteOriginal: true });
+    expect(await manager.load("prettier", { cosmiconfig: { searchFrom: dir } })).toBe(converted);
+    expect(await manager.load(".prettierrc.yml")).toBe(converted);
+    expect(await pathExists(join(dir, ".prettierrc.json"))).toBe(false);
+
+    converted.set("singleQuote", true);
+    const result = await manager.saveAll();
+    expect(result.created).toEqual([]);
+    expect(await readFile(join(dir, ".prettierrc.yml"), "utf8")).toBe("semi: false\nsingleQuote: true\n");
+  });
+
+  it("should save converted file once in atomic mode.", async () => {
+    await outputFile(join(dir, ".prettierrc.json"), '{ "semi": false }\n');
+    const manager = new Manager({ root: dir });
+    const original = await manager.load("prettier", { cosmiconfig: { searchFrom: dir } });
+    const converted = await manager.convert(original, ".prettierrc.yml", { deleteOriginal: true });
+    converted.set("singleQuote", true);
+    const result = await manager.saveAll({ atomic: true });
+    expect(result.files).toHaveLength(1);
+    expect(await readFile(join(dir, ".prettierrc.yml"), "utf8")).toBe("semi: false\nsingleQuote: true\n");
+  });
+
+  it("should load file to convert by path.", async () => {
+    await outputFile(join(dir, "config.json"), '{ "a": 1 }\n');
+    const manager = new Manager({ root: dir });
+    const converted = await manager.convert("config.json", "config.yaml");
+    expect(converted.path).toBe(join(dir, "config.yaml"));
+    expect(await readFile(join(dir, "config.yaml"), "utf8")).toBe("a: 1\n");
+  });
+});
+
+describe("cosmiconfig locations", () => {
+  it("should create new configuration at the first available location.", async () => {
+    const manager = new Manager({ root: dir });
+    const createAt = ["package.json", ".{module}rc.yml"];
+    const prettier = await manager.load("prettier", { cosmiconfig: { createAt }, defaultData: { semi: false } });
+    await prettier.save();
+    expect(await readFile(join(dir, ".prettierrc.yml"), "utf8")).toBe("semi: false\n");
+
+    await outputFile(join(dir, "package.json"), '{ "name": "a" }\n');
+    const husky = await manager.load("husky", { cosmiconfig: { createAt }, defaultData: { hooks: {} } });
+    await husky.set("hooks.pre-commit", "lint").save();
+    expect(JSON.parse(await readFile(join(dir, "package.json"), "utf8"))).toEqual({
+      name: "a",
+      husky: { hooks: { "pre-commit": "lint" } },
+    });
+  });
+
+  it("should create editable js configuration.", async () => {
+    const eslint = await DataFile.load("eslint", { rootDir: dir, cosmiconfig: { createAt: ["{module}.config.js"] } });
+    expect(eslint.readOnly).toBe(false);
+    await eslint.set("root", true).save();
+    expect(await readFile(join(dir, "eslint.config.js"), "utf8")).toBe("module.exports = {\n  root: true\n};\n");
+  });
+
+  it("should throw for locations which are not search places.", async () => {
+    await expect(DataFile.load("eslint", { rootDir: dir, cosmiconfig: { createAt: [".{module}rc.toml"] } })).rejects.toThrow(
+      "Cannot use '.eslintrc.toml' for 'eslint' configuration: it is not a search place of cosmiconfig."
+    );
+  });
+
+  it("should move configuration between package.json and files.", async () => {
+    await outputFile(join(dir, "package.json"), JSON.stringify({ name: "a", prettier: { semi: false } }));
+    const manager = new Manager({ root: dir });
+    const moved = await manager.moveCosmiconfig("prettier", ".{module}rc.yml");
+    expect(JSON.parse(await readFile(join(dir, "package.json"), "utf8"))).toEqual({ name: "a" });
+    expect(await readFile(join(dir, ".prettierrc.yml"), "utf8")).toBe("semi: false\n");
+    expect(await manager.load("prettier", { cosmiconfig: true })).toBe(moved);
+
+    await manager.moveCosmiconfig("prettier", "package.json");
+    expect(JSON.parse(await readFile(join(dir, "package.json"), "utf8"))).toEqual({ name: "a", prettier: { semi: false } });
+    expect(await pathExists(join(dir, ".prettierrc.yml"))).toBe(false);
+    await expect(manager.moveCosmiconfig("husky", "package.json")).rejects.toThrow("'husky' configuration is not found");
+  });
+
+  it("should not overwrite existing key.", async () => {
+    await outputFile(join(dir, "package.json"), JSON.stringify({ name: "a", prettier: {} }));
+    await outputFile(join(dir, ".prettierrc.json"), '{ "semi": false }');
+    const prettierrc = await DataFile.load(join(dir, ".prettierrc.json"));
+    await expect(prettierrc.convert(join(dir, "package.json"), { rootDataPath: "prettier" })).rejects.toThrow(
+      "the 'prettier' key already exists"
+    );
+  });
+});
@@ -1,6 +1,9 @@
 /* eslint-disable no-return-assign */
-import { join } from "path";
-import { Manager, DataFile } from "../src";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import { copy, readFile, pathExists, outputFile, mkdtemp, readJson, remove } from "fs-extra";
+import cloneDeep from "clone-deep";
+import { Manager, DataFile, ArrayMergeStrategy, ConflictStrategy, ConflictError } from "../src";
 
 const root = join(__dirname, "example");
 
@@ -18,6 +21,8 @@ beforeEach(async () => {
   huskyConfig = await manager.load("husky", { cosmiconfig: { searchFrom: root } });
 });
 
+afterAll(() => Promise.all(["edit-config-workflow.yml", "edit-config-eslintrc.js"].map((name) => remove(join(tmpdir(), name)))));
+
 describe("DataFile", () => {
   it("should load JSON file.", async () => {
     expect(packageJson.get("name")).toBe("example-package");
@@ -58,6 +63,38 @@ describe("DataFile", () => {
     expect(eslintConfig.get("name")).toBe("example-eslint");
   });
 
+  it("should load TOML file.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/pyproject.toml"));
+    expect(dataFile.get("tool.poetry.name")).toBe("example-toml");
+  });
+
+  it("should load TOML config without extension.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/toml-config"));
+    expect(dataFile.data).toEqual({ name: "example-toml-config", count: 3 });
+  });
+
+  it("should serialize TOML file.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/pyproject.toml"));
+    dataFile.set("tool.poetry.version", "2.0.0");
+    expect(await dataFile.serialize()).toContain('version = "2.0.0"');
+  });
+
+  it("should keep comments of YAML file after save.", async () => {
+    const path = join(tmpdir(), "edit-config-workflow.yml");
+    await copy(join(__dirname, "example/workflow.yml"), path);
+    const dataFile = await DataFile.load(path);
+    await dataFile.set("jobs.test.steps.0.run", "npm run test").save();
+    const content = await readFile(path, { encoding: "utf-8" });
+    expect(content).toContain("# Workflow\nname: CI   # the name\n");
+    expect(content).toContain("      - run: npm run test\n");
+  });
+
+  it("should return diff instead of saving in dry run.", async () => {
+    const result = await packageJson.set("scripts.build", "tsc").save({ dryRun: true });
+    expect(result?.status).toBe("changed");
+    expect(result?.diff).toContain('+    "build": "tsc"');
+  });
+
   it("should load config without extension.", async () => {
     expect(someConfig.get("a")).toBe(1);
   });
@@ -91,12 +128,39 @@ describe("DataFile", () => {
     expect(packageJson.get("scripts.test")).toBe("jest");
   });
 
-  it("should report JS file as readonly.", async () => {
-    expect(eslintConfig.readOnly).toBe(true);
+  it("should report JS file without exported object literal as readonly.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/a.js"));
+    expect(dataFile.readOnly).toBe(true);
+  });
+
+  it("should report JS file exporting object literal as writable.", async () => {
+    expect(eslintConfig.readOnly).toBe(false);
+  });
+
+  it("should throw if JS file without exported object literal tried to be saved.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/a.js"));
+    await expect(dataFile.save()).rejects.toThrow("Cannot save");
+  });
+
+  it("should save JS file.", async () => {
+    const path = join(tmpdir(), "edit-config-eslintrc.js");
+    await copy(join(__dirname, "example/.eslintrc.js"), path);
+    const dataFile = await DataFile.load(path);
+    await dataFile.set("name", "changed").set("env.node", true).save();
+    const content = await readFile(path, { encoding: "utf-8" });
+    expect(content).toContain('name: "changed",\n  root: true,');
+    expect(content).toContain("env: {\n    node: true\n  }");
+  });
+
+  it("should load TS file statically.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/jest.config.ts"));
+    expect(dataFile.data).toEqual({ preset: "ts-jest", roots: ["<rootDir>/src"], transform: undefined });
+    expect(dataFile.readOnly).toBe(false);
   });
 
-  it("should throw if JS file tried to be saved.", async () => {
-    await expect(eslintConfig.save()).rejects.toThrow("Cannot save");
+  it("should throw if computed value of JS file is modified.", async () => {
+    const dataFile = await DataFile.load(join(__dirname, "example/jest.config.ts"));
+    await expect(dataFile.set("transform.a", 1).serialize()).rejects.toThrow("Cannot modify computed value at 'transform'");
   });
 
   describe("fromData", () => {
@@ -195,6 +259,16 @@ describe("DataFile", () => {
       packageJson.merge("scripts", { a: 1 }, { if: () => false });
       expect(packageJson.get("scripts")).toEqual({ test: "jest" });
     });
+
+    it("should log and record merge into missing path once.", async () => {
+      const logs: string[] = [];
+      const file = await DataFile.fromData("package.json", {}, { logger: { log: (level: string, message: string) => logs.push(message) } });
+      file.merge("config.a", { b: 1 });
+      expect(file.data).toEqual({ config: { a: { b: 1 } } });
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toContain("merged");
+      expect(file.getHistory().map((entry) => entry.op)).toEqual(["merge"]);
+    });
   });
 
   describe("getModifiedKeys", () => {
@@ -206,6 +280,11 @@ describe("DataFile", () => {
       packageJson.merge("scripts", { a: 1 }).set("other.data", 2).delete("name");
       expect(packageJson.getModifiedKeys({ filter: (path) => path[0] !== "scripts" })).toEqual({ set: ["other.data"], deleted: ["name"] });
     });
+    it("get modified keys containing dots.", () => {
+      packageJson.set(["exports", "./lib", "import"], "a").set('exports["./lib"].require', "b").delete("files[0]").delete(["files", 0]);
+      expect(packageJson.getModifiedKeys()).toEqual({ set: ['exports["./lib"].import', 'exports["./lib"].require'], deleted: ["files.0"] });
+      expect(packageJson.getModifiedKeys({ filter: (path) => path[1] === "./lib" }).set).toHaveLength(2);
+    });
   });
 
   describe("sortKeys", () => {
@@ -241,4 +320,431 @@ describe("DataFile", () => {
       expect(packageJson.get("scripts")).toEqual({ test: "jest" });
     });
   });
+
+  describe("validate", () => {
+    it("should validate well known files with built-in schema.", () => {
+      expect(packageJson.validate()).toEqual([]);
+      packageJson.set("scripts.build", 1);
+      expect(packageJson.validate()).toEqual([{ path: ["scripts", "build"], message: "should be string", keyword: "type" }]);
+    });
+
+    it("should validate with schema referenced by $schema.", async () => {
+      const config = await DataFile.load(join(root, "schema/config.json"));
+      expect(config.validate()).toEqual([]);
+      config.delete("port").set("hosts", ["a", 1]);
+      expect(config.validate().map((error) => error.path)).toEqual([[], ["hosts", 1]]);
+    });
+
+    it("should load files with unresolvable $schema reference.", async () => {
+      const config = await DataFile.fromData(join(root, "schema/new.json"), { $schema: "./invalid.schema.json", a: 1 });
+      expect(config.get("a")).toBe(1);
+      expect(config.validate()).toEqual([]);
+    });
+
+    it("should validate with provided schema.", async () => {
+      const config = await DataFile.fromData("new.json", { a: 1 }, { schema: { properties: { a: { type: "string" } } } });
+      expect(config.validate()).toEqual([{ path: ["a"], message: "should be string", keyword: "type" }]);
+    });
+
+    it("should not save invalid data if validateOnSave is set.", async () => {
+      const config = await DataFile.fromData(
+        join(tmpdir(), "edit-config-invalid.json"),
+        { a: 1 },
+        {
+          schema: { properties: { a: { type: "string" } } },
+          validateOnSave: true,
+        }
+      );
+      await expect(config.save()).rejects.toThrow("is not valid.\n  - a: should be string");
+      expect(await pathExists(join(tmpdir(), "edit-config-invalid.json"))).toBe(false);
+    });
+  });
+
+  describe("array operations", () => {
+    let config: DataFile;
+    beforeEach(async () => {
+      config = await DataFile.fromData("config.json", { files: ["lib", "README.md"], plugins: [{ name: "a" }] });
+    });
+
+    it("should append items.", () => {
+      config.appendItems("files", ["dist", "lib", "dist"], { unique: true }).appendItems("new", [1]);
+      expect(config.data).toMatchObject({ files: ["lib", "README.md", "dist"], new: [1] });
+      expect(config.getModifiedKeys().set).toEqual(["files", "new"]);
+    });
+
+    it("should prepend items.", () => {
+      config.prependItems("files", ["dist", "README.md"], { unique: true });
+      expect(config.get("files")).toEqual(["dist", "lib", "README.md"]);
+    });
+
+    it("should insert items before or after matching item.", () => {
+      config.insertItems("files", ["a"], { before: "README.md" }).insertItems("files", ["b"], { after: (file: string) => file === "lib" });
+      config.insertItems("files", ["c"], { after: "non-existing" }).insertItems("plugins", [{ name: "b" }], { before: { name: "a" } });
+      expect(config.get("files")).toEqual(["lib", "b", "a", "README.md", "c"]);
+      expect(config.get("plugins")).toEqual([{ name: "b" }, { name: "a" }]);
+    });
+
+    it("should remove items by value or predicate.", () => {
+      config.removeItems("plugins", [{ name: "a" }]).removeItems("files", (file) => file.endsWith(".md"));
+      expect(config.data).toEqual({ files: ["lib"], plugins: [] });
+    });
+
+    it("should not edit array if condition is false.", () => {
+      config.appendItems("files", ["dist"], { if: (files) => !files.includes("lib") });
+      expect(config.get("files")).toEqual(["lib", "README.md"]);
+      expect(config.getModifiedKeys().set).toEqual([]);
+    });
+
+    it("should throw if value is not an array.", () => {
+      expect(() => config.appendItems("plugins.0", ["x"])).toThrow("'plugins.0' is not an array");
+    });
+
+    it("should merge arrays using given strategy.", async () => {
+      const source = { files: ["dist", "lib"], plugins: [{ name: "a", x: 1 }, { name: "c" }] };
+      const merge = async (arrayMerge: ArrayMergeStrategy): Promise<any> =>
+        (await DataFile.fromData("x.json", cloneDeep(config.data))).merge([], source, { arrayMerge }).data;
+
+      expect(await merge("merge")).toEqual({ files: ["dist", "lib"], plugins: [{ name: "a", x: 1 }, { name: "c" }] });
+      expect(await merge("replace")).toEqual(source);
+      expect(await merge("concat")).toEqual({ files: ["lib", "README.md", "dist", "lib"], plugins: [{ name: "a" }, ...source.plugins] });
+      expect(await merge("union")).toEqual({ files: ["lib", "README.md", "dist"], plugins: [{ name: "a" }, ...source.plugins] });
+      expect(await merge({ unionBy: "name" })).toEqual({ files: ["lib", "README.md", "dist"], plugins: source.plugins });
+    });
+  });
+
+  describe("history", () => {
+    let config: DataFile;
+    beforeEach(async () => {
+      config = await DataFile.fromData("config.json", { name: "x", scripts: { test: "jest" }, files: ["lib"] });
+    });
+
+    it("should record operations with values before and after.", () => {
+      config.set("scripts.build", "tsc").delete("name").merge("scripts", { lint: "eslint" }).appendItems("files", ["dist"]);
+      expect(config.getHistory()).toEqual([
+        { op: "set", path: ["scripts", "build"], before: { exists: false }, after: { exists: true, value: "tsc" } },
+        { op: "delete", path: ["name"], before: { exists: true, value: "x" }, after: { exists: false } },
+        {
+          op: "merge",
+          path: ["scripts"],
+          before: { exists: true, value: { test: "jest", build: "tsc" } },
+          after: { exists: true, value: { test: "jest", build: "tsc", lint: "eslint" } },
+        },
+        { op: "appendItems", path: ["files"], before: { exists: true, value: ["lib"] }, after: { exists: true, value: ["lib", "dist"] } },
+      ]);
+    });
+
+    it("should not record operations which do not change data.", () => {
+      config
+        .set("name", "x")
+        .delete("non-existing")
+        .sortKeys([], { start: ["name", "scripts"] });
+      expect(config.getHistory()).toEqual([]);
+    });
+
+    it("should undo and redo operations.", () => {
+      const data = cloneDeep(config.data);
+      config
+        .set("scripts.build", "tsc")
+        .merge([], { files: ["dist"], private: true })
+        .sortKeys([]);
+      const modified = cloneDeep(config.data);
+      config.undo().undo().undo().undo();
+      expect(config.data).toEqual(data);
+      expect(config.canUndo).toBe(false);
+      config.redo().redo().redo();
+      expect(config.data).toEqual(modified);
+      expect(Object.keys(config.data)).toEqual(["files", "name", "private", "scripts"]);
+      expect(config.canRedo).toBe(false);
+    });
+
+    it("should clear redo stack after a new operation.", () => {
+      config.set("a", 1).undo().set("b", 2);
+      expect(config.canRedo).toBe(false);
+      expect(config.redo().data).not.toHaveProperty("a");
+    });
+
+    it("should return inverse patch which removes only added keys.", async () => {
+      config
+        .set("scripts.build", "tsc")
+        .merge([], { private: true, scripts: { test: "mocha" } })
+        .delete("name")
+        .appendItems("files", ["dist"]);
+      expect(config.getInversePatch()).toEqual([
+        { op: "replace", path: "/files", value: ["lib"] },
+        { op: "add", path: "/name", value: "x" },
+        { op: "replace", path: "/scripts/test", value: "jest" },
+        { op: "remove", path: "/private" },
+        { op: "remove", path: "/scripts/build" },
+      ]);
+
+      const other = await DataFile.fromData("other.json", { ...cloneDeep(config.data), author: "y" });
+      other.applyPatch(config.getInversePatch());
+      expect(other.data).toEqual({ scripts: { test: "jest" }, files: ["lib"], author: "y", name: "x" });
+    });
+
+    it("should remove parents created by operations with inverse patch and undo.", async () => {
+      const data = cloneDeep(config.data);
+      config.set(["a.b", "c"], 3).merge("x.y", { z: 1 });
+      expect(config.getInversePatch()).toEqual([
+        { op: "remove", path: "/x/y" },
+        { op: "remove", path: "/x" },
+        { op: "remove", path: "/a.b/c" },
+        { op: "remove", path: "/a.b" },
+      ]);
+
+      const other = await DataFile.fromData("other.json", cloneDeep(config.data));
+      expect(other.applyPatch(config.getInversePatch()).data).toEqual(data);
+      expect(config.undo().undo().data).toEqual(data);
+    });
+
+    it("should apply patch as a single operation.", () => {
+      config.applyPatch([
+        { op: "add", path: "/files/0", value: "dist" },
+        { op: "add", path: "/files/-", value: "README.md" },
+        { op: "replace", path: "/scripts/test", value: "mocha" },
+        { op: "add", path: "/a~1b", value: 1 },
+      ]);
+      expect(config.data).toEqual({ name: "x", scripts: { test: "mocha" }, files: ["dist", "lib", "README.md"], "a/b": 1 });
+      expect(config.getHistory()).toHaveLength(1);
+      expect(config.undo().data).toEqual({ name: "x", scripts: { test: "jest" }, files: ["lib"] });
+    });
+
+    it("should not change data if patch cannot be applied.", () => {
+      const patch = [
+        { op: "remove" as const, path: "/name" },
+        { op: "remove" as const, path: "/non-existing" },
+      ];
+      expect(() => config.applyPatch(patch)).toThrow("'remove' operation at '/non-existing' has no value");
+      expect(() => config.applyPatch([{ op: "add", path: "/files/5", value: 1 }])).toThrow("has invalid array index");
+      expect(config.data).toEqual({ name: "x", scripts: { test: "jest" }, files: ["lib"] });
+      expect(config.getHistory()).toEqual([]);
+      expect(config.isModified).toBe(false);
+      expect(config.getModifiedKeys()).toEqual({ set: [], deleted: [] });
+    });
+  });
+
+  describe("patch", () => {
+    let config: DataFile;
+    beforeEach(async () => {
+      config = await DataFile.fromData("config.json", { name: "x", scripts: { test: "jest" }, files: ["lib", "dist"] });
+    });
+
+    it("should apply move, copy and test operations.", () => {
+      config.applyPatch([
+        { op: "test", path: "/name", value: "x" },
+        { op: "copy", from: "/scripts/test", path: "/scripts/ci" },
+        { op: "move", from: "/files/1", path: "/files/0" },
+        { op: "move", from: "/name", path: "/title" },
+      ]);
+      expect(config.data).toEqual({ scripts: { test: "jest", ci: "jest" }, files: ["dist", "lib"], title: "x" });
+    });
+
+    it("should accept dot separated data paths and a base path.", () => {
+      config
+        .applyPatch([{ op: "replace", path: "scripts.test", value: "mocha" }])
+        .applyPatch([{ op: "add", path: "build", value: "tsc" }], {
+          path: "/scripts",
+        });
+      expect(config.get("scripts")).toEqual({ test: "mocha", build: "tsc" });
+      expect(config.getModifiedKeys().set).toEqual(["scripts.test", "scripts.build"]);
+    });
+
+    it("should not change data if test operation fails.", () => {
+      const patch = [
+        { op: "remove" as const, path: "/name" },
+        { op: "test" as const, path: "/scripts/test", value: "mocha" },
+      ];
+      expect(() => config.applyPatch(patch)).toThrow("'test' operation at '/scripts/test' failed");
+      expect(() => config.applyPatch([{ op: "move", from: "/scripts", path: "/scripts/x" }])).toThrow("cannot move a value into its child");
+      expect(config.data).toEqual({ name: "x", scripts: { test: "jest" }, files: ["lib", "dist"] });
+    });
+
+    it("should apply JSON Merge Patch.", () => {
+      config.applyPatch({ name: null, scripts: { build: "tsc", test: null }, files: ["a"], author: { name: "y" }, missing: null });
+      expect(config.data).toEqual({ scripts: { build: "tsc" }, files: ["a"], author: { name: "y" } });
+      expect(config.getModifiedKeys()).toEqual({
+        set: ["scripts.build", "files", "author", "author.name"],
+        deleted: ["name", "scripts.test"],
+      });
+      config.applyPatch({ b: 1 }, { path: "scripts.build" });
+      expect(config.get("scripts.build")).toEqual({ b: 1 });
+    });
+
+    it("should return diff between loaded and current data.", async () => {
+      const dataFile = await DataFile.load(join(__dirname, "example/package.json"));
+      dataFile.set("scripts.build", "tsc").set("husky.hooks.pre-commit", "test").delete("counter");
+      const patch = dataFile.diff();
+      expect(patch).toEqual([
+        { op: "remove", path: "/counter" },
+        { op: "add", path: "/scripts/build", value: "tsc" },
+        { op: "replace", path: "/husky/hooks/pre-commit", value: "test" },
+      ]);
+      const other = await DataFile.load(join(__dirname, "example/package.json"));
+      expect(other.applyPatch(patch).data).toEqual(dataFile.data);
+    });
+  });
+
+  describe("query paths", () => {
+    let config: DataFile;
+    beforeEach(async () => {
+      config = await DataFile.fromData("config.json", {
+        scripts: { build: "tsc", test: "jest" },
+        overrides: [
+          { files: "*.ts", rules: { semi: "off" } },
+          { files: "*.js", rules: {} },
+        ],
+      });
+    });
+
+    it("should get and test values at matched paths.", () => {
+      expect(config.get("overrides.*.files")).toEqual(["*.ts", "*.js"]);
+      expect(config.get("overrides[files=*.ts].rules.semi")).toEqual(["off"]);
+      expect(config.has("overrides[files=*.js]")).toBe(true);
+      expect(config.has("overrides[files=*.md]")).toBe(false);
+    });
+
+    it("should set values at matched paths and report each path as modified.", () => {
+      config.set("overrides[].rules.quotes", "single").set("scripts.*", (value: string) => `npx ${value}`);
+      expect(config.get("overrides.*.rules")).toEqual([{ semi: "off", quotes: "single" }, { quotes: "single" }]);
+      expect(config.data.scripts).toEqual({ build: "npx tsc", test: "npx jest" });
+      expect(config.getModifiedKeys().set).toEqual([
+        "overrides.0.rules.quotes",
+        "overrides.1.rules.quotes",
+        "scripts.build",
+        "scripts.test",
+      ]);
+    });
+
+    it("should evaluate condition for each matched path.", () => {
+      config.set("scripts.*", "x", { if: (value) => value === "jest" });
+      expect(config.data.scripts).toEqual({ build: "tsc", test: "x" });
+    });
+
+    it("should delete matched paths and remove matched array elements.", () => {
+      config.delete("overrides[files=*.ts]").delete("overrides.*.rules");
+      expect(config.data.overrides).toEqual([{ files: "*.js" }]);
+      expect(config.getModifiedKeys().deleted).toEqual(["overrides.0", "overrides.0.rules"]);
+      config.undo().undo();
+      expect(config.data.overrides).toHaveLength(2);
+    });
+
+    it("should merge into matched paths.", () => {
+      config.merge("overrides[files=*.js].rules", { semi: "error" });
+      expect(config.get("overrides.*.rules.semi")).toEqual(["off", "error"]);
+    });
+  });
+
+  describe("multi-document", () => {
+    const manifest = `# Deployment
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web # app name
+spec:
+  replicas: 1
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: web
+spec:
+  type: ClusterIP
+`;
+    let path: string;
+    beforeEach(async () => {
+      path = join(await mkdtemp(join(tmpdir(), "edit-config-")), "k8s.yaml");
+      await outputFile(path, manifest);
+    });
+
+    afterEach(() => remove(dirname(path)));
+
+    it("should load documents as an array.", async () => {
+      const config = await DataFile.load(path);
+      expect(config.isMultiDocument).toBe(true);
+      expect(config.get("*.kind")).toEqual(["Deployment", "Service"]);
+      expect(config.findDocument({ kind: "Service", "metadata.name": "web" })).toBe(1);
+      expect(config.findDocument({ kind: "Ingress" })).toBe(-1);
+    });
+
+    it("should edit documents individually and preserve separators and comments.", async () => {
+      const config = await DataFile.load(path);
+      await config.set("[kind=Service&metadata.name=web].spec.type", "NodePort").set("0.spec.replicas", 3).save();
+      expect(await readFile(path, "utf8")).toBe(manifest.replace("replicas: 1", "replicas: 3").replace("ClusterIP", "NodePort"));
+    });
+
+    it("should add and remove documents.", async () => {
+      const config = await DataFile.load(path);
+      await config.delete("[kind=Deployment]").set("1", { kind: "ConfigMap" }).save();
+      const content = await readFile(path, "utf8");
+      expect(content).not.toContain("kind: Deployment");
+      expect(content).toContain("kind: Service\n");
+      expect(content).toContain("---\nkind: ConfigMap\n");
+    });
+
+    it("should write new multi-document files.", async () => {
+      const config = await DataFile.fromData(path, [{ a: 1 }, { b: 2 }], { multiDocument: true });
+      await config.save();
+      expect(await readFile(path, "utf8")).toBe("a: 1\n---\nb: 2\n");
+    });
+
+    it("should throw when finding documents of single document files.", async () => {
+      const config = await DataFile.fromData("config.yaml", { a: 1 });
+      expect(() => config.findDocument({ a: 1 })).toThrow("is not a multi-document YAML file");
+    });
+  });
+
+  describe("conflict", () => {
+    let path: string;
+    const load = (onConflict: ConflictStrategy): Promise<DataFile> => DataFile.load(path, { onConflict });
+    const change = (data: object): Promise<void> => outputFile(path, JSON.stringify(data));
+
+    beforeEach(async () => {
+      path = join(await mkdtemp(join(tmpdir(), "edit-config-")), "config.json");
+      await change({ a: 1, b: { c: 1, d: 1 } });
+    });
+
+    afterEach(() => remove(dirname(path)));
+
+    it("should overwrite changed file by default.", async () => {
+      const config = await load("overwrite");
+      await change({ a: 2 });
+      await config.set("b.c", 2).save();
+      expect(await readJson(path)).toEqual({ a: 1, b: { c: 2, d: 1 } });
+    });
+
+    it("should throw if file is changed on disk.", async () => {
+      const config = await load("throw");
+      await change({ a: 2, b: { c: 1, d: 1 } });
+      const error = await config
+        .set("b.c", 2)
+        .save()
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).toMatchObject({ path, changedPaths: ["a"], conflictingPaths: [] });
+      expect(await readJson(path)).toEqual({ a: 2, b: { c: 1, d: 1 } });
+    });
+
+    it("should not throw if file is not changed since save.", async () => {
+      const config = await load("throw");
+      await config.set("a", 2).save();
+      await config.set("a", 3).save();
+      expect(await readJson(path)).toEqual({ a: 3, b: { c: 1, d: 1 } });
+    });
+
+    it("should merge modified keys onto data on disk.", async () => {
+      const config = await load("merge");
+      await change({ a: 1, b: { c: 1, d: 2 }, e: 1 });
+      await config.set("b.c", 2).delete("a").save();
+      expect(config.data).toEqual({ b: { c: 2, d: 2 }, e: 1 });
+      expect(await readJson(path)).toEqual({ b: { c: 2, d: 2 }, e: 1 });
+    });
+
+    it("should throw if same key is changed on disk and in memory.", async () => {
+      const config = await load("merge");
+      await change({ a: 1, b: { c: 3, d: 1 } });
+      await expect(config.set("b", { c: 2, d: 1 }).save()).rejects.toMatchObject({ changedPaths: ["b.c"], conflictingPaths: ["b"] });
+      await config.set("b", { c: 3, d: 1 }).set("a", 2).save();
+      expect(await readJson(path)).toEqual({ a: 2, b: { c: 3, d: 1 } });
+    });
+  });
 });
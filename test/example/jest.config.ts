@@ -0,0 +1,8 @@
+import type { Config } from "@jest/types";
+
+// Jest configuration
+export default {
+  preset: "ts-jest",
+  roots: ["<rootDir>/src"],
+  transform: process.env.TRANSFORM,
+} as Config.InitialOptions;
@@ -0,0 +1,140 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, outputFile, readFile, remove } from "fs-extra";
+import { Manager, DataFile, registerFormat, unregisterFormat, getFormat, getFormats, FormatDefinition } from "../src";
+
+const lines = {
+  name: "lines",
+  fileNames: [".gitignore", /^\.\w+ignore$/],
+  extensions: ["lines"],
+  parse: (content: string) => ({ lines: content.split("\n").filter(Boolean) }),
+  stringify: (data: any) => `${data.lines.join("\n")}\n`,
+};
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "edit-config-"));
+});
+
+afterEach(async () => {
+  ["lines", "key-value", "dockerfile"].forEach((name) => unregisterFormat(name));
+  await remove(dir);
+});
+
+describe("registerFormat()", () => {
+  it("should load and save files matching file names and extensions.", async () => {
+    registerFormat(lines);
+    await outputFile(join(dir, ".gitignore"), "dist\nnode_modules\n");
+    await outputFile(join(dir, ".prettierignore"), "coverage\n");
+    const manager = new Manager({ root: dir });
+    const [gitignore, prettierignore] = await manager.loadAll([".gitignore", ".prettierignore"]);
+    expect(gitignore.data).toEqual({ lines: ["dist", "node_modules"] });
+    expect(prettierignore.data).toEqual({ lines: ["coverage"] });
+    await gitignore.appendItems("lines", ["coverage"]).save();
+    await (await manager.fromData("new.lines", { lines: ["a"] })).save();
+    expect(await readFile(join(dir, ".gitignore"), "utf8")).toBe("dist\nnode_modules\ncoverage\n");
+    expect(await readFile(join(dir, "new.lines"), "utf8")).toBe("a\n");
+  });
+
+  it("should detect format of files without extension by content.", async () => {
+    registerFormat({
+      name: "dockerfile",
+      detect: (content) => content.startsWith("FROM "),
+      parse: (content) => ({ from: content.slice(5).trim() }),
+    });
+    await outputFile(join(dir, "Containerfile"), "FROM node:14\n");
+    const file = await DataFile.load(join(dir, "Containerfile"));
+    expect(file.get("from")).toBe("node:14");
+    expect(file.readOnly).toBe(true);
+    await expect(file.save({ throwOnReadOnly: true })).rejects.toThrow("its format is not writable");
+  });
+
+  it("should pass original content to stringify.", async () => {
+    const stringify = jest.fn((data: any, { content }) => `${content ?? ""}${Object.keys(data).slice(-1)[0]}=x\n`);
+    registerFormat({ name: "key-value", extensions: ["kv"], parse: () => ({ a: "x" }), stringify });
+    await outputFile(join(dir, "a.kv"), "a=x\n");
+    await (await DataFile.load(join(dir, "a.kv"))).set("b", "x").save();
+    expect(stringify.mock.calls[0][1]).toEqual({ path: join(dir, "a.kv"), content: "a=x\n", multiDocument: false });
+    expect(await readFile(join(dir, "a.kv"), "utf8")).toBe("a=x\nb=x\n");
+  });
+
+  it("should list, replace and remove formats.", () => {
+    expect(getFormats().map((format) => format.name)).toEqual(["properties", "env", "ini", "js", "toml", "yaml", "json"]);
+    registerFormat(lines);
+    registerFormat({ ...lines, extensions: ["txt"] });
+    expect(getFormats()[0].name).toBe("lines");
+    expect(getFormat("lines")?.extensions).toEqual(["txt"]);
+    expect(unregisterFormat("lines")).toBe(true);
+    expect(getFormat("lines")).toBeUndefined();
+    expect(() => registerFormat({ name: "js", parse: () => ({}) })).toThrow("'js' format cannot be replaced");
+  });
+});
+
+describe("replaced built-in format", () => {
+  it("should parse files using the registered definition.", async () => {
+    const builtin = getFormat("yaml") as FormatDefinition;
+    registerFormat({ ...builtin, parseAll: undefined, parse: (content) => ({ custom: content.trim() }) });
+    try {
+      await outputFile(join(dir, "a.yaml"), "a: 1\n---\nb: 2\n");
+      const file = await DataFile.load(join(dir, "a.yaml"));
+      expect(file.data).toEqual({ custom: "a: 1\n---\nb: 2" });
+    } finally {
+      registerFormat(builtin);
+    }
+  });
+});
+
+describe("format detection", () => {
+  it("should try formats of well known files in order and report the reason.", async () => {
+    await outputFile(join(dir, ".prettierrc"), "semi: false\n");
+    const prettierrc = await DataFile.load(join(dir, ".prettierrc"));
+    expect(prettierrc.data).toEqual({ semi: false });
+    expect(prettierrc.formatReport).toMatchObject({ format: "yaml", source: "file-name" });
+    expect(prettierrc.formatReport.reason).toMatch(
+      /^'.prettierrc' is a known 'json' or 'yaml' file. Parsed as 'yaml' after 'json' failed: /
+    );
+  });
+
+  it("should not fall back to other formats for well known files.", async () => {
+    await outputFile(join(dir, ".babelrc"), "presets: []\n");
+    await outputFile(join(dir, ".eslintrc"), "extends airbnb\n");
+    await expect(DataFile.load(join(dir, ".babelrc"))).rejects.toThrow('Cannot parse data as "json".');
+    await expect(DataFile.load(join(dir, ".eslintrc"))).rejects.toThrow("must be an object");
+  });
+
+  it("should report extension and content.", async () => {
+    await outputFile(join(dir, "config"), "a = 1\n");
+    await outputFile(join(dir, "a.json"), "{}");
+    expect((await DataFile.load(join(dir, "a.json"))).formatReport).toEqual({
+      format: "json",
+      source: "extension",
+      reason: "'.json' extension is 'json'. Parsed as 'json'.",
+    });
+    expect((await DataFile.load(join(dir, "config"))).formatReport).toMatchObject({ format: "toml", source: "content" });
+  });
+
+  it("should force format with format option.", async () => {
+    await outputFile(join(dir, "config"), "a: 1\n");
+    const manager = new Manager({ root: dir });
+    const config = await manager.load("config", { format: "yaml" });
+    expect(config.formatReport).toEqual({ format: "yaml", source: "option", reason: "'format' option is 'yaml'. Parsed as 'yaml'." });
+    await config.set("b", 2).save();
+    await config.reload();
+    expect(config.data).toEqual({ a: 1, b: 2 });
+    expect(await readFile(join(dir, "config"), "utf8")).toBe("a: 1\nb: 2\n");
+    await expect(DataFile.load(join(dir, "config"), { format: "json" })).rejects.toThrow('Cannot parse data as "json".');
+  });
+
+  it("should determine format of new files from file name, format and defaultFormat options.", async () => {
+    expect((await DataFile.fromData(join(dir, ".eslintrc"), {})).formatReport.format).toBe("json");
+    expect((await DataFile.fromData(join(dir, ".eslintrc"), {}, { defaultFormat: "yaml" })).formatReport.format).toBe("yaml");
+    expect((await DataFile.fromData(join(dir, ".babelrc"), {}, { defaultFormat: "yaml" })).formatReport.format).toBe("json");
+    expect((await DataFile.fromData(join(dir, "a.json"), {}, { format: "yaml" })).formatReport.format).toBe("yaml");
+    expect((await DataFile.load(join(dir, "missing"))).formatReport).toEqual({
+      format: "json",
+      source: "default",
+      reason: "'missing' has no extension, 'json' is used by default.",
+    });
+  });
+});
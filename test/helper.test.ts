@@ -1,7 +1,51 @@
-import { getArrayPath } from "../src/helper";
+import { getArrayPath, getStringPath, getChangedPaths } from "../src/helper";
 
 describe("getArrayPath()", () => {
   it("should return array path for given string", () => {
     expect(getArrayPath("a.b.c")).toEqual(["a", "b", "c"]);
   });
+
+  it("should return array path for given string with brackets", () => {
+    expect(getArrayPath('exports["./lib"].import')).toEqual(["exports", "./lib", "import"]);
+    expect(getArrayPath("files[0].name")).toEqual(["files", 0, "name"]);
+    expect(getArrayPath(`a['b"c'].d["e\\"f"]`)).toEqual(["a", 'b"c', "d", 'e"f']);
+  });
+
+  it("should throw for query segments", () => {
+    expect(() => getArrayPath("a[name=x]")).toThrow("Invalid path segment");
+  });
+});
+
+describe("getStringPath()", () => {
+  it("should quote keys containing special characters", () => {
+    expect(getStringPath(["files", 0, "name"])).toBe("files.0.name");
+    expect(getStringPath(["exports", "./lib", "import"])).toBe('exports["./lib"].import');
+    expect(getStringPath(["dependencies", "lodash.get"])).toBe('dependencies["lodash.get"]');
+    expect(getStringPath(["", "*", 'a"b\\c'])).toBe('[""]["*"]["a\\"b\\\\c"]');
+  });
+
+  it("should round trip with getArrayPath", () => {
+    const paths = [
+      ["exports", "./lib", "import"],
+      ["a", "", "b.c", "[d]", "'e'", "f\\g"],
+      ["*", "**"],
+      ["", ""],
+    ];
+    paths.forEach((path) => expect(getArrayPath(getStringPath(path) as string)).toEqual(path));
+  });
+});
+
+describe("getChangedPaths()", () => {
+  it("should return changed, added and deleted paths", () => {
+    expect(getChangedPaths({ a: { b: 1, c: 2 }, d: [1], e: 1 }, { a: { b: 1, c: 3 }, d: [1, 2], f: 1 })).toEqual(["a.c", "d", "e", "f"]);
+  });
+
+  it("should quote keys containing dots", () => {
+    expect(getChangedPaths({ exports: { "./lib": "a" } }, { exports: { "./lib": "b" } })).toEqual(['exports["./lib"]']);
+  });
+
+  it("should return parent path if only order of keys is changed", () => {
+    expect(getChangedPaths({ a: { b: 1, c: 2 } }, { a: { c: 2, b: 1 } })).toEqual(["a"]);
+    expect(getChangedPaths({ a: 1 }, { a: 1 })).toEqual([]);
+  });
 });
@@ -0,0 +1,72 @@
+// Placeholders of the interpolation look like template literals.
+/* eslint-disable no-template-curly-in-string */
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, readJson, remove } from "fs-extra";
+import { Manager, DataFile, InterpolationError } from "../src";
+
+const env = { CI: "true", NODE_ENV: "test" };
+
+describe("interpolation", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "edit-config-"));
+  });
+
+  afterAll(() => remove(dir));
+
+  it("should resolve environment variables and sibling keys.", async () => {
+    const data = { name: "app", port: 3000, url: "http://${name}:${port}", ci: "${env.CI}", ports: ["${port}"], text: "$${name}" };
+    const config = await DataFile.fromData("config.json", data, { interpolate: { env } });
+    expect(config.get("url")).toBe("http://app:3000");
+    expect(config.get("ci")).toBe("true");
+    expect(config.get("ports")).toEqual([3000]);
+    expect(config.get("text")).toBe("${name}");
+    expect(config.get("missing", "default")).toBe("default");
+    expect(config.data.url).toBe("http://${name}:${port}");
+  });
+
+  it("should not resolve placeholders if not enabled.", async () => {
+    const config = await DataFile.fromData("config.json", { a: "${env.CI}" });
+    expect(config.get("a")).toBe("${env.CI}");
+  });
+
+  it("should pass raw values to value functions.", async () => {
+    const config = await DataFile.fromData("config.json", { a: "${b}", b: "x" }, { interpolate: true });
+    config.set("a", (value: string) => `${value}-suffix`);
+    expect(config.data.a).toBe("${b}-suffix");
+    expect(config.get("a")).toBe("x-suffix");
+  });
+
+  it("should resolve keys of other files loaded by manager.", async () => {
+    const manager = new Manager({ root: "/project", interpolate: { env } });
+    await manager.fromData("package.json", { name: "app", version: "1.2.0", tag: "${name}@${version}" });
+    const config = await manager.fromData("config/app.json", { release: "${package.json:tag}", env: "${env.NODE_ENV}" });
+    expect(config.get("release")).toBe("app@1.2.0");
+    expect(config.get("env")).toBe("test");
+  });
+
+  it("should throw for missing references.", async () => {
+    const manager = new Manager({ root: "/project", interpolate: { env } });
+    const config = await manager.fromData("config.json", { a: "${env.MISSING}", b: "${c.d}", c: "${other.json:x}" });
+    expect(() => config.get("a")).toThrow("environment variable 'MISSING' is not defined");
+    expect(() => config.get("b")).toThrow("key 'c.d' does not exist in '/project/config.json'");
+    expect(() => config.get("c")).toThrow(InterpolationError);
+    expect(() => config.get("c")).toThrow("Cannot resolve '${other.json:x}' in '/project/config.json': file 'other.json' is not loaded.");
+  });
+
+  it("should detect circular references.", async () => {
+    const config = await DataFile.fromData("/config.json", { a: "${b}", b: "x ${c}", c: "${a}", d: "${d}" }, { interpolate: true });
+    expect(() => config.get("a")).toThrow("circular reference /config.json:a -> /config.json:b -> /config.json:c -> /config.json:a");
+    expect(() => config.get("d")).toThrow("circular reference /config.json:d -> /config.json:d");
+  });
+
+  it("should write placeholders or resolved values.", async () => {
+    const data = { name: "app", title: "${name}" };
+    await (await DataFile.fromData(join(dir, "a.json"), data, { interpolate: true })).save();
+    await (await DataFile.fromData(join(dir, "b.json"), data, { interpolate: { preserve: false } })).save();
+    expect(await readJson(join(dir, "a.json"))).toEqual({ name: "app", title: "${name}" });
+    expect(await readJson(join(dir, "b.json"))).toEqual({ name: "app", title: "app" });
+  });
+});
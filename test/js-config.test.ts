@@ -0,0 +1,80 @@
+import { evaluateJs, isEditableJs, patchJs } from "../src/js-config";
+
+const content = `// Config
+const base = require("./base");
+
+module.exports = {
+  // Preset
+  preset: "ts-jest",
+  roots: ["<rootDir>/src"],
+  transform: base.transform,
+  ...base.rest,
+};
+`;
+
+describe("evaluateJs()", () => {
+  it("should evaluate literal values and return computed values as undefined.", () => {
+    expect(evaluateJs(content, "jest.config.js")).toEqual({ preset: "ts-jest", roots: ["<rootDir>/src"], transform: undefined });
+  });
+
+  it("should evaluate object passed to a wrapper function.", () => {
+    expect(evaluateJs(`export default defineConfig({ a: 1 });`, "vite.config.mjs")).toEqual({ a: 1 });
+  });
+});
+
+describe("isEditableJs()", () => {
+  it("should detect exported object literal.", () => {
+    expect(isEditableJs(content, "jest.config.js")).toBe(true);
+    expect(isEditableJs(`const a = 1;`, "a.js")).toBe(false);
+  });
+});
+
+describe("patchJs()", () => {
+  it("should modify only literal values and keep comments.", () => {
+    const oldData = evaluateJs(content, "jest.config.js");
+    const result = patchJs(content, "jest.config.js", oldData, {
+      ...oldData,
+      preset: "babel-jest",
+      roots: ["<rootDir>/src", "<rootDir>/lib"],
+    });
+    expect(result).toBe(content.replace('"ts-jest"', '"babel-jest"').replace('["<rootDir>/src"]', '["<rootDir>/src", "<rootDir>/lib"]'));
+  });
+
+  it("should add and delete properties.", () => {
+    const oldData = evaluateJs(content, "jest.config.js");
+    const data = { ...oldData, verbose: true };
+    delete data.preset;
+    const result = patchJs(content, "jest.config.js", oldData, data);
+    expect(result).not.toContain("preset");
+    expect(evaluateJs(result, "jest.config.js")).toEqual(data);
+  });
+
+  it("should add and delete properties without printing the other properties again.", () => {
+    const source = `module.exports = {
+  a: 1, // A
+  b: {
+    x: true,
+  },
+
+  // C
+  c: "x",
+};
+`;
+    const oldData = evaluateJs(source, "a.config.js");
+    expect(patchJs(source, "a.config.js", oldData, { ...oldData, d: { y: [1] } })).toBe(
+      source.replace(`};`, `  d: {\n    y: [1]\n  },\n};`)
+    );
+    expect(patchJs(source, "a.config.js", oldData, { a: 1, b: { x: true } })).toBe(source.replace(`\n\n  // C\n  c: "x",`, ""));
+  });
+
+  it("should add properties to tab indented object without trailing comma.", () => {
+    const source = `export default defineConfig({\n\tplugins: [\n\t\t'a',\n\t] // Plugins\n} as Config);\n`;
+    const result = patchJs(source, "vite.config.ts", { plugins: ["a"] }, { plugins: ["a"], server: { port: 3000 } });
+    expect(result).toBe(source.replace(`] // Plugins`, `], // Plugins\n\tserver: {\n\t\tport: 3000\n\t}`));
+  });
+
+  it("should throw with path when computed value is modified.", () => {
+    const oldData = evaluateJs(content, "jest.config.js");
+    expect(() => patchJs(content, "jest.config.js", oldData, { ...oldData, transform: { a: 1 } })).toThrow("computed value at 'transform'");
+  });
+});
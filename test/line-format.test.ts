@@ -0,0 +1,135 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, outputFile, readFile, remove } from "fs-extra";
+import { DataFile } from "../src";
+import { parseLineFormat, patchLineFormat } from "../src/line-format";
+
+const editorconfig = `# top-most
+root = true
+
+[*]
+indent_style = space
+indent_size = 2
+
+; markdown
+[*.md]
+trim_trailing_whitespace = false
+`;
+
+const env = `# Database
+export DB_HOST=localhost
+DB_PASS="p#ss \\"word\\"" # secret
+EMPTY=
+`;
+
+const properties = `# Gradle
+org.gradle.jvmargs=-Xmx2g \\
+    -Dfile.encoding=UTF-8
+android.useAndroidX : true
+key\\ with\\ spaces=a\\tb
+`;
+
+describe("parseLineFormat()", () => {
+  it("should parse ini sections and arrays.", () => {
+    expect(parseLineFormat(editorconfig, "ini")).toEqual({
+      root: "true",
+      "*": { indent_style: "space", indent_size: "2" },
+      "*.md": { trim_trailing_whitespace: "false" },
+    });
+    expect(parseLineFormat('registry=https://r.io/\nca[]=a\nca[]=b\nname="x ; y"\n', "ini")).toEqual({
+      registry: "https://r.io/",
+      ca: ["a", "b"],
+      name: "x ; y",
+    });
+  });
+
+  it("should parse env files.", () => {
+    expect(parseLineFormat(env, "env")).toEqual({ DB_HOST: "localhost", DB_PASS: 'p#ss "word"', EMPTY: "" });
+  });
+
+  it("should parse properties files.", () => {
+    expect(parseLineFormat(properties, "properties")).toEqual({
+      "org.gradle.jvmargs": "-Xmx2g -Dfile.encoding=UTF-8",
+      "android.useAndroidX": "true",
+      "key with spaces": "a\tb",
+    });
+  });
+
+  it("should parse properties with empty keys.", () => {
+    expect(parseLineFormat("=a\n:b\nc=d\n", "properties")).toEqual({ "": "b", c: "d" });
+  });
+
+  it("should parse properties with a trailing backslash on the last line.", () => {
+    const content = "a=1\nb=2\\";
+    expect(parseLineFormat(content, "properties")).toEqual({ a: "1", b: "2" });
+    expect(parseLineFormat("a=1\n\\\n", "properties")).toEqual({ a: "1" });
+    expect(patchLineFormat("a=1\n\\\n", { a: "2" }, "properties")).toBe("a=2\n\\\n");
+  });
+});
+
+describe("patchLineFormat()", () => {
+  it("should return same content if data is not changed.", () => {
+    expect(patchLineFormat(editorconfig, parseLineFormat(editorconfig, "ini"), "ini")).toBe(editorconfig);
+    expect(patchLineFormat(env, parseLineFormat(env, "env"), "env")).toBe(env);
+    expect(patchLineFormat(properties, parseLineFormat(properties, "properties"), "properties")).toBe(properties);
+  });
+
+  it("should update, add and delete ini entries and sections.", () => {
+    const data = parseLineFormat(editorconfig, "ini");
+    data["*"].indent_size = 4;
+    data["*"].end_of_line = "lf";
+    delete data["*.md"];
+    data["*.py"] = { indent_size: 4 };
+    expect(patchLineFormat(editorconfig, data, "ini")).toBe(
+      "# top-most\nroot = true\n\n[*]\nindent_style = space\nindent_size = 4\nend_of_line = lf\n\n; markdown\n\n[*.py]\nindent_size = 4\n"
+    );
+  });
+
+  it("should update env entries keeping prefixes and comments.", () => {
+    const data = parseLineFormat(env, "env");
+    data.DB_HOST = "db";
+    data.DB_PASS = "new pass";
+    data.PORT = 5432;
+    delete data.EMPTY;
+    expect(patchLineFormat(env, data, "env")).toBe('# Database\nexport DB_HOST=db\nDB_PASS="new pass" # secret\nPORT=5432\n');
+  });
+
+  it("should create new content.", () => {
+    expect(patchLineFormat("", { "a.b": "x y" }, "properties")).toBe("a.b=x y\n");
+    expect(patchLineFormat("", { root: true, "*": { ca: ["a", "b"] } }, "ini")).toBe("root = true\n\n[*]\nca[] = a\nca[] = b\n");
+  });
+
+  it("should throw for nested values.", () => {
+    expect(() => patchLineFormat("", { a: { b: 1 } }, "env")).toThrow("Cannot write 'a' to 'env' file");
+  });
+});
+
+describe("DataFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "edit-config-"));
+  });
+
+  afterEach(() => remove(dir));
+
+  it("should load and save line oriented files by file name.", async () => {
+    await outputFile(join(dir, ".npmrc"), "# npm\nsave-exact=true\n");
+    await outputFile(join(dir, ".env.local"), env);
+    const npmrc = await DataFile.load(join(dir, ".npmrc"));
+    const dotenv = await DataFile.load(join(dir, ".env.local"));
+    await npmrc.set("registry", "https://r.io/").save();
+    await dotenv.set("DB_HOST", "db").save();
+    expect(await readFile(join(dir, ".npmrc"), "utf8")).toBe("# npm\nsave-exact=true\nregistry=https://r.io/\n");
+    expect(dotenv.get("DB_PASS")).toBe('p#ss "word"');
+    expect(await readFile(join(dir, ".env.local"), "utf8")).toBe(env.replace("localhost", "db"));
+  });
+
+  it("should load .env files with extension of another format in that format.", async () => {
+    await outputFile(join(dir, ".env.json"), '{ "DB_HOST": "localhost" }');
+    await outputFile(join(dir, ".env.yml"), "DB_HOST: localhost\n");
+    expect((await DataFile.load(join(dir, ".env.json"))).formatReport.format).toBe("json");
+    expect((await DataFile.load(join(dir, ".env.yml"))).get("DB_HOST")).toBe("localhost");
+    expect((await DataFile.load(join(dir, ".env.production"))).formatReport.format).toBe("env");
+  });
+});
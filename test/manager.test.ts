@@ -1,5 +1,8 @@
 import { join } from "path";
-import { Manager } from "../src";
+import { tmpdir } from "os";
+import nodeFs, { FSWatcher } from "fs";
+import fs, { readFile, outputFile, mkdtemp, readdir, pathExists, remove } from "fs-extra";
+import { Manager, DataFile, FileChangeEvent } from "../src";
 
 const manager = new Manager({ root: join(__dirname, "example") });
 
@@ -20,4 +23,206 @@ describe("manager", () => {
     expect(dataFile.data).toEqual({});
     expect(dataFile.found).toBe(false);
   });
+
+  it("should report changes without writing files in dry run.", async () => {
+    const dryRunManager = new Manager({ root: join(__dirname, "example"), dryRun: true });
+    const [packageJson] = await dryRunManager.loadAll(["package.json", "empty-path-test.json"]);
+    await dryRunManager.fromData("new-file.json", { a: 1 });
+    packageJson.set("name", "changed-package");
+    const result = await dryRunManager.saveAll();
+
+    expect(result.changed).toEqual([join(__dirname, "example/package.json")]);
+    expect(result.created).toEqual([join(__dirname, "example/new-file.json")]);
+    expect(result.unchanged).toEqual([join(__dirname, "example/empty-path-test.json")]);
+    expect(result.files[0].diff).toContain('+  "name": "changed-package",');
+    expect(await readFile(join(__dirname, "example/package.json"), "utf-8")).toContain('"name": "example-package"');
+  });
+
+  describe("atomic save", () => {
+    let root: string;
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), "edit-config-"));
+      await outputFile(join(root, "a.json"), '{ "a": 1 }\n');
+    });
+
+    afterEach(() => remove(root));
+
+    it("should stage instances of the same file to different temporary files.", async () => {
+      const [first, second] = await Promise.all([DataFile.load(join(root, "a.json")), DataFile.load(join(root, "a.json"))]);
+      const staged = await Promise.all([first.set("a", 2).stage(), second.set("a", 3).stage()]);
+      expect(staged[0]?.tempPath).not.toBe(staged[1]?.tempPath);
+      expect(await readdir(root)).toHaveLength(3);
+    });
+
+    it("should save all files atomically.", async () => {
+      const tmpManager = new Manager({ root });
+      const a = await tmpManager.load("a.json");
+      await tmpManager.fromData("sub/b.json", { b: 1 });
+      a.set("a", 2);
+      const result = await tmpManager.saveAll({ atomic: true });
+
+      expect(result.changed).toEqual([join(root, "a.json")]);
+      expect(result.created).toEqual([join(root, "sub/b.json")]);
+      expect(JSON.parse(await readFile(join(root, "a.json"), "utf-8"))).toEqual({ a: 2 });
+      expect(await readdir(join(root, "sub"))).toEqual(["b.json"]);
+    });
+
+    it("should not write any file if a file cannot be staged in atomic save.", async () => {
+      await outputFile(join(root, "not-dir"), "");
+      const tmpManager = new Manager({ root });
+      (await tmpManager.load("a.json")).set("a", 2);
+      await tmpManager.fromData("not-dir/b.json", { b: 1 });
+
+      await expect(tmpManager.saveAll({ atomic: true })).rejects.toThrow();
+      expect(await readFile(join(root, "a.json"), "utf-8")).toBe('{ "a": 1 }\n');
+      expect(await readdir(root)).toEqual(["a.json", "not-dir"]);
+    });
+
+    it("should roll back moved files if a file cannot be moved in atomic save.", async () => {
+      const tmpManager = new Manager({ root });
+      (await tmpManager.load("a.json")).set("a", 2);
+      await tmpManager.fromData("b.json", { b: 1 });
+      await tmpManager.fromData("c.json", { c: 1 });
+      const rename = jest.spyOn(fs, "rename").mockImplementationOnce(fs.rename).mockImplementationOnce(fs.rename);
+      rename.mockImplementationOnce(() => Promise.reject(new Error("Rename failed")));
+
+      await expect(tmpManager.saveAll({ atomic: true })).rejects.toThrow("Rename failed");
+      rename.mockRestore();
+      expect(await readFile(join(root, "a.json"), "utf-8")).toBe('{ "a": 1 }\n');
+      expect(await pathExists(join(root, "b.json"))).toBe(false);
+      expect(await readdir(root)).toEqual(["a.json"]);
+    });
+  });
+
+  it("should apply recipe from a file.", async () => {
+    const recipeManager = new Manager({ root: join(__dirname, "example") });
+    const report = await recipeManager.applyRecipe("recipe.yml");
+    const packageJson = await recipeManager.load("package.json");
+    const path = join(__dirname, "example/package.json");
+
+    expect(packageJson.data).toMatchObject({ scripts: { build: "tsc", test: "jest --coverage" }, files: ["dist"] });
+    expect(packageJson.has("husky.hooks.pre-push")).toBe(false);
+    expect(report).toEqual({
+      operations: [
+        { file: path, op: "set", path: "scripts.build", applied: true },
+        { file: path, op: "set", path: "scripts.test", applied: true },
+        { file: path, op: "appendItems", path: "files", applied: true },
+        { file: path, op: "merge", path: "husky.hooks", applied: false },
+      ],
+      modified: [path],
+    });
+  });
+
+  describe("glob", () => {
+    let root: string;
+    let tmpManager: Manager;
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), "edit-config-"));
+      await outputFile(join(root, "package.json"), JSON.stringify({ workspaces: ["packages/*"] }));
+      await outputFile(join(root, "packages/a/package.json"), JSON.stringify({ name: "a", license: "MIT" }));
+      await outputFile(join(root, "packages/b/package.json"), JSON.stringify({ name: "b" }));
+      await outputFile(join(root, "examples/c/package.json"), JSON.stringify({ name: "c" }));
+      tmpManager = new Manager({ root });
+    });
+
+    afterEach(() => remove(root));
+
+    it("should load files matching glob patterns.", async () => {
+      const files = await tmpManager.loadGlob(["*/*/package.json", "!examples/**"]);
+      expect(files.map((file) => file.get("name"))).toEqual(["a", "b"]);
+      expect(files[0]).toBe(await tmpManager.load("packages/a/package.json"));
+    });
+
+    it("should load files in workspaces.", async () => {
+      const files = await tmpManager.loadGlob("**/package.json", { workspaces: true });
+      expect(files.map((file) => file.get("name"))).toEqual(["a", "b"]);
+      expect(await tmpManager.getWorkspaces()).toEqual(["packages/a", "packages/b"]);
+    });
+
+    it("should edit all files and report results.", async () => {
+      const logs: string[] = [];
+      const loggingManager = new Manager({ root, logger: { log: (level: string, message: string) => logs.push(message) } });
+      const files = await loggingManager.loadGlob("packages/*/package.json");
+      files.push(await loggingManager.load("examples/c/package.json"));
+      const results = await loggingManager.editAll(files, (file) => {
+        file.set("license", "MIT").set("scripts.build", "tsc");
+        if (file.get("name") === "c") throw new Error("Not a package.");
+      });
+
+      expect(results).toEqual([
+        { path: join(root, "packages/a/package.json"), status: "modified", changedPaths: ["scripts"] },
+        { path: join(root, "packages/b/package.json"), status: "modified", changedPaths: ["license", "scripts"] },
+        { path: join(root, "examples/c/package.json"), status: "failed", changedPaths: [], error: new Error("Not a package.") },
+      ]);
+      expect(files[2].data).toEqual({ name: "c" });
+      expect(files[2].getHistory()).toEqual([]);
+      expect(files[2].canRedo).toBe(false);
+      expect(files[2].getModifiedKeys()).toEqual({ set: [], deleted: [] });
+      expect(logs[logs.length - 1]).toBe("Edited 3 file(s): 2 modified, 0 unchanged, 1 failed.");
+    });
+  });
+
+  describe("watch", () => {
+    let root: string;
+    let watchManager: Manager;
+    const nextEvent = (event: "change" | "conflict"): Promise<FileChangeEvent> =>
+      new Promise((resolve) => watchManager.on(event, (changeEvent: FileChangeEvent) => resolve(changeEvent)));
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), "edit-config-"));
+      await outputFile(join(root, "a.json"), '{ "a": 1, "b": { "c": 1 } }\n');
+      watchManager = new Manager({ root, watch: true });
+    });
+
+    afterEach(() => {
+      watchManager.unwatch();
+      return remove(root);
+    });
+
+    it("should reload changed file.", async () => {
+      const a = await watchManager.load("a.json");
+      const changed = nextEvent("change");
+      await outputFile(join(root, "a.json"), '{ "a": 1, "b": { "c": 2 }, "d": 1 }\n');
+      const { dataFile, changedPaths } = await changed;
+
+      expect(dataFile).toBe(a);
+      expect(changedPaths).toEqual(["b.c", "d"]);
+      expect(a.data).toEqual({ a: 1, b: { c: 2 }, d: 1 });
+    });
+
+    it("should not reload file having unsaved modifications.", async () => {
+      const a = await watchManager.load("a.json");
+      a.set("a", 2);
+      const conflict = nextEvent("conflict");
+      await outputFile(join(root, "a.json"), '{ "a": 3, "b": { "c": 1 } }\n');
+
+      expect((await conflict).changedPaths).toEqual(["a"]);
+      expect(a.get("a")).toBe(2);
+    });
+
+    it("should not emit change for saved files.", async () => {
+      const a = await watchManager.load("a.json");
+      const listener = jest.fn();
+      watchManager.on("change", listener);
+      await a.set("a", 2).save();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(a.isModified).toBe(false);
+    });
+
+    it("should report watcher errors and stop watching the directory.", async () => {
+      const watchSpy = jest.spyOn(nodeFs, "watch");
+      const a = await watchManager.load("a.json");
+      const watcher: FSWatcher = watchSpy.mock.results[0].value;
+      watchSpy.mockRestore();
+      const close = jest.spyOn(watcher, "close");
+      const reported = new Promise((resolve) => watchManager.on("error", (error, dataFile) => resolve({ error, dataFile })));
+      const error = new Error("EPERM");
+      watcher.emit("error", error);
+
+      expect(await reported).toEqual({ error, dataFile: a });
+      expect(close).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { parsePath, isQueryPath, resolveQueryPath } from "../src/path";
+
+const data = {
+  a: { x: { name: "a" }, y: { name: "b" } },
+  plugins: [
+    { name: "one", tags: ["x"] },
+    { name: "two", tags: ["x", "y"] },
+    { name: "3", nested: { name: "deep" } },
+  ],
+};
+
+describe("parsePath()", () => {
+  it("should parse keys, wildcards, indexes and filters.", () => {
+    expect(parsePath("a.*.b[0][][*][name=x]['c.d'=\"e.f\"].**")).toEqual([
+      { type: "key", key: "a" },
+      { type: "wildcard" },
+      { type: "key", key: "b" },
+      { type: "key", key: 0 },
+      { type: "wildcard" },
+      { type: "wildcard" },
+      { type: "filter", conditions: [{ path: ["name"], value: "x" }] },
+      { type: "filter", conditions: [{ path: ["c.d"], value: "e.f" }] },
+      { type: "globstar" },
+    ]);
+  });
+
+  it("should throw for unclosed brackets.", () => {
+    expect(() => parsePath("a[name=x")).toThrow("Unclosed bracket");
+  });
+});
+
+describe("isQueryPath()", () => {
+  it("should detect query paths.", () => {
+    expect(isQueryPath("a.*")).toBe(true);
+    expect(isQueryPath("a[name=x]")).toBe(true);
+    expect(isQueryPath("a[0]")).toBe(false);
+    expect(isQueryPath("a.b")).toBe(false);
+    expect(isQueryPath(["a", "*"])).toBe(false);
+  });
+});
+
+describe("resolveQueryPath()", () => {
+  it("should expand wildcards over existing keys.", () => {
+    expect(resolveQueryPath(data, "a.*.name")).toEqual([
+      ["a", "x", "name"],
+      ["a", "y", "name"],
+    ]);
+  });
+
+  it("should match array elements by property.", () => {
+    expect(resolveQueryPath(data, "plugins[name=two].tags")).toEqual([["plugins", 1, "tags"]]);
+    expect(resolveQueryPath(data, "plugins[tags=x].name")).toEqual([
+      ["plugins", 0, "name"],
+      ["plugins", 1, "name"],
+    ]);
+    expect(resolveQueryPath(data, "plugins[name=3]")).toEqual([["plugins", 2]]);
+    expect(resolveQueryPath(data, "plugins[name=none]")).toEqual([]);
+    expect(resolveQueryPath(data, "plugins[nested.name=deep].name")).toEqual([["plugins", 2, "name"]]);
+    expect(resolveQueryPath(data, "plugins[tags=x&name=two]")).toEqual([["plugins", 1]]);
+    expect(resolveQueryPath(data, "plugins[tags=x&name=3]")).toEqual([]);
+  });
+
+  it("should expand globstar over any number of levels.", () => {
+    expect(resolveQueryPath(data, "plugins.**.name")).toEqual([
+      ["plugins", 0, "name"],
+      ["plugins", 1, "name"],
+      ["plugins", 2, "name"],
+      ["plugins", 2, "nested", "name"],
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { DataFile } from "../src";
+import { testCondition, validateRecipe, applyOperation } from "../src/recipe";
+
+let dataFile: DataFile;
+
+beforeEach(async () => {
+  dataFile = await DataFile.fromData("package.json", { name: "a", keywords: ["x", "y"], scripts: { test: "jest" } });
+});
+
+describe("testCondition()", () => {
+  it("should test existence and equality.", () => {
+    expect(testCondition({ exists: true }, dataFile, "scripts.test")).toBe(true);
+    expect(testCondition({ exists: false }, dataFile, "scripts.build")).toBe(true);
+    expect(testCondition({ path: "name", equals: "a", exists: true }, dataFile, "scripts")).toBe(true);
+    expect(testCondition({ notEquals: "a" }, dataFile, "name")).toBe(false);
+  });
+
+  it("should test inclusion.", () => {
+    expect(testCondition({ includes: "y" }, dataFile, "keywords")).toBe(true);
+    expect(testCondition({ includes: "es" }, dataFile, "scripts.test")).toBe(true);
+    expect(testCondition({ includes: "z" }, dataFile, "keywords")).toBe(false);
+  });
+
+  it("should combine conditions.", () => {
+    expect(testCondition({ all: [{ exists: true }, { path: "name", equals: "a" }] }, dataFile, "keywords")).toBe(true);
+    expect(testCondition({ any: [{ exists: false }, { path: "name", equals: "b" }] }, dataFile, "keywords")).toBe(false);
+    expect(testCondition({ not: { exists: true } }, dataFile, "keywords")).toBe(false);
+  });
+});
+
+describe("applyOperation()", () => {
+  it("should apply operation if condition passes.", () => {
+    expect(applyOperation(dataFile, { op: "set", path: "scripts.build", value: "tsc", if: { exists: false } })).toBe(true);
+    expect(applyOperation(dataFile, { op: "set", path: "scripts.build", value: "babel", if: { exists: false } })).toBe(false);
+    expect(applyOperation(dataFile, { op: "merge", value: { private: true } })).toBe(true);
+    expect(dataFile.data).toMatchObject({ scripts: { build: "tsc" }, private: true });
+  });
+});
+
+describe("validateRecipe()", () => {
+  it("should throw for invalid recipe.", () => {
+    const recipe: any = {
+      files: [
+        {
+          path: "a.json",
+          operations: [
+            { op: "set", path: "a" },
+            { op: "rename", path: "a" },
+          ],
+        },
+      ],
+    };
+    expect(() => validateRecipe(recipe)).toThrow("Invalid recipe:\n  - files.0.operations.0: should have required property 'value'");
+    expect(() => validateRecipe({ files: [] })).not.toThrow();
+  });
+});
@@ -0,0 +1,66 @@
+import { join } from "path";
+import { resolveSchema, compileSchema } from "../src/schema";
+import { builtinSchemas } from "../src/builtin-schemas";
+
+const schemaDir = join(__dirname, "example/schema");
+
+describe("resolveSchema()", () => {
+  it("should prefer explicit schema.", async () => {
+    const schema = { type: "object" };
+    expect(await resolveSchema(join(schemaDir, "config.json"), { $schema: "./config.schema.json" }, schema)).toBe(schema);
+  });
+
+  it("should not resolve schema if disabled.", async () => {
+    expect(await resolveSchema("package.json", {}, false)).toBeUndefined();
+  });
+
+  it("should resolve local schema referenced by $schema.", async () => {
+    const schema = await resolveSchema(join(schemaDir, "config.json"), { $schema: "./config.schema.json" });
+    expect(schema).toMatchObject({ required: ["port"] });
+  });
+
+  it("should resolve well known $schema URL.", async () => {
+    expect(await resolveSchema("x.json", { $schema: "https://json.schemastore.org/tsconfig.json" })).toBe(builtinSchemas["tsconfig.json"]);
+  });
+
+  it("should resolve built-in schema from file name.", async () => {
+    expect(await resolveSchema("some/path/package.json", {})).toBe(builtinSchemas["package.json"]);
+    expect(await resolveSchema("some.json", { $schema: "https://example.com/unknown" })).toBeUndefined();
+  });
+
+  it("should not resolve unreadable or non JSON/YAML $schema references.", async () => {
+    const path = join(schemaDir, "config.json");
+    expect(await resolveSchema(path, { $schema: "./invalid.schema.json" })).toBeUndefined();
+    expect(await resolveSchema(path, { $schema: "./missing.schema.json" })).toBeUndefined();
+    expect(await resolveSchema(path, { $schema: "./config.schema.js" })).toBeUndefined();
+    expect(await resolveSchema(join(schemaDir, "package.json"), { $schema: "./invalid.schema.json" })).toBe(builtinSchemas["package.json"]);
+  });
+});
+
+describe("compileSchema()", () => {
+  const validate = compileSchema({
+    type: "object",
+    properties: { list: { type: "array", items: { type: "object", properties: { "a/b": { type: "string" } } } } },
+    additionalProperties: false,
+  });
+
+  it("should return empty array for valid data.", () => {
+    expect(validate({ list: [{ "a/b": "x" }] })).toEqual([]);
+  });
+
+  it("should return data paths of errors.", () => {
+    expect(validate({ list: [{}, { "a/b": 1 }], extra: 1 })).toEqual([
+      { path: ["extra"], message: "is not an allowed property", keyword: "additionalProperties" },
+      { path: ["list", 1, "a/b"], message: "should be string", keyword: "type" },
+    ]);
+  });
+
+  it("should check known compiler options of tsconfig.json and allow unknown ones.", () => {
+    const validateTsconfig = compileSchema(builtinSchemas["tsconfig.json"]);
+    expect(validateTsconfig({ compilerOptions: { strict: true, target: "es2019" }, "ts-node": {} })).toEqual([]);
+    expect(validateTsconfig({ compilerOptions: { locale: "tr", someFutureOption: true } })).toEqual([]);
+    expect(validateTsconfig({ compilerOptions: { strict: "yes" } })).toEqual([
+      { path: ["compilerOptions", "strict"], message: "should be boolean,null", keyword: "type" },
+    ]);
+  });
+});
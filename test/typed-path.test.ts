@@ -0,0 +1,57 @@
+import { join } from "path";
+import { Manager, DataFile, PackageJson, TsConfig } from "../src";
+
+const root = join(__dirname, "example");
+
+describe("typed paths", () => {
+  it("should infer value types from data type.", async () => {
+    const packageJson = await new Manager({ root }).load<PackageJson>("package.json");
+    const name: string | undefined = packageJson.get("name");
+    const scripts: Record<string, string> | undefined = packageJson.get(["scripts"]);
+    const test: string | undefined = packageJson.get("scripts.test");
+    const hook: string | undefined = packageJson.get(["husky", "hooks", "pre-commit"]);
+    expect([name, scripts, test, hook]).toEqual(["example-package", { test: "jest" }, "jest", "lint"]);
+  });
+
+  it("should accept typed paths and values.", async () => {
+    const tsconfig = await DataFile.fromData<TsConfig>("tsconfig.json", {});
+    tsconfig.set("compilerOptions.strict", true).set(["compilerOptions", "lib"], ["esnext"]).set("include.0", "src");
+    tsconfig.set("compilerOptions.paths.@app/*", ["src/*"]).delete("compilerOptions.lib");
+    expect(tsconfig.has("compilerOptions.strict")).toBe(true);
+    expect(tsconfig.data).toEqual({ compilerOptions: { strict: true, paths: { "@app/*": ["src/*"] } }, include: ["src"] });
+  });
+
+  it("should reject wrong paths and values at compile time.", async () => {
+    const tsconfig = await DataFile.fromData<TsConfig>("tsconfig.json", {});
+    // @ts-expect-error: Misspelled compiler option.
+    tsconfig.set("compilerOptions.strct", true);
+    // @ts-expect-error: Wrong value type.
+    tsconfig.set(["compilerOptions", "strict"], "yes");
+    // @ts-expect-error: Misspelled key.
+    tsconfig.has("compilerOption");
+    // @ts-expect-error: Wrong return type.
+    const strict: string = tsconfig.get("compilerOptions.strict");
+    expect(strict).toBe("yes");
+  });
+
+  it("should accept paths with bracket segments.", async () => {
+    const packageJson = await DataFile.fromData<PackageJson>("package.json", {});
+    packageJson.set('dependencies["lodash.get"]', "^4.4.2").set("exports['./lib']", "./lib/index.js");
+    const lib: unknown = packageJson.get('exports["./lib"]');
+    expect(lib).toBe("./lib/index.js");
+    expect(packageJson.data).toEqual({ dependencies: { "lodash.get": "^4.4.2" }, exports: { "./lib": "./lib/index.js" } });
+  });
+
+  it("should accept query paths.", async () => {
+    const packageJson = await DataFile.fromData<PackageJson>("package.json", { keywords: ["a", "x"], scripts: { a: "a", b: "b" } });
+    const scripts: unknown[] = packageJson.get("scripts.*");
+    packageJson.set("scripts.*", "jest").delete("keywords[]").delete("files[name=x]");
+    expect(scripts).toEqual(["a", "b"]);
+    expect(packageJson.data).toEqual({ keywords: [], scripts: { a: "jest", b: "jest" } });
+  });
+
+  it("should accept any path for untyped data.", async () => {
+    const dataFile = await DataFile.fromData("config.json", {});
+    expect(dataFile.set("a.b", 1).set(["c", 0], 2).get("a.b")).toBe(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { join } from "path";
+import { tmpdir } from "os";
+import { outputFile, mkdtemp, remove } from "fs-extra";
+import { findPaths, getWorkspacePaths } from "../src/workspace";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "edit-config-"));
+  await Promise.all(
+    ["packages/a", "packages/b", "packages/legacy", "tools/x", "dist/c", "node_modules/d"].map((dir) =>
+      outputFile(join(root, dir, "package.json"), "{}")
+    )
+  );
+  await outputFile(join(root, ".gitignore"), "dist\n");
+});
+
+afterEach(() => remove(root));
+
+describe("findPaths()", () => {
+  it("should skip ignored files and node_modules.", async () => {
+    expect(await findPaths(root, "**/package.json")).toEqual([
+      "packages/a/package.json",
+      "packages/b/package.json",
+      "packages/legacy/package.json",
+      "tools/x/package.json",
+    ]);
+  });
+
+  it("should include files ignored by .gitignore if requested.", async () => {
+    expect(await findPaths(root, ["*/*/package.json", "!packages/**"], { gitignore: false })).toEqual([
+      "dist/c/package.json",
+      "tools/x/package.json",
+    ]);
+  });
+});
+
+describe("getWorkspacePaths()", () => {
+  it("should return workspaces of package.json.", async () => {
+    await outputFile(join(root, "package.json"), JSON.stringify({ workspaces: ["packages/*", "!packages/legacy", "dist/*"] }));
+    expect(await getWorkspacePaths(root)).toEqual(["packages/a", "packages/b"]);
+  });
+
+  it("should return workspaces of yarn package.json and pnpm-workspace.yaml.", async () => {
+    await outputFile(join(root, "package.json"), JSON.stringify({ workspaces: { packages: ["packages/a"] } }));
+    await outputFile(join(root, "pnpm-workspace.yaml"), "packages:\n  - 'tools/*/'\n");
+    expect(await getWorkspacePaths(root)).toEqual(["packages/a", "tools/x"]);
+  });
+
+  it("should return empty array if there are no workspaces.", async () => {
+    await remove(join(root, "package.json"));
+    expect(await getWorkspacePaths(root)).toEqual([]);
+  });
+});
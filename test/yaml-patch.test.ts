@@ -0,0 +1,68 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import yaml from "js-yaml";
+import { patchYaml, patchYamlDocuments } from "../src/yaml-patch";
+
+const content = readFileSync(join(__dirname, "example/workflow.yml"), { encoding: "utf-8" });
+const load = (): any => yaml.safeLoad(content);
+
+describe("patchYaml()", () => {
+  it("should return same content if data is not changed.", () => {
+    expect(patchYaml(content, load())).toBe(content);
+  });
+
+  it("should keep comments and quotes of changed scalars.", () => {
+    const data = load();
+    data.name = "Build";
+    data.jobs.build.steps[1].name = "Setup";
+    const result = patchYaml(content, data);
+    expect(result).toBe(content.replace("name: CI   # the name", "name: Build   # the name").replace('name: "Install"', 'name: "Setup"'));
+  });
+
+  it("should add and delete keys without touching other nodes.", () => {
+    const data = load();
+    delete data.on;
+    data.env = { CI: true };
+    const result = patchYaml(content, data);
+    expect(result).toBe(`${content.replace("on:\n  push:\n    branches: [ master ]\n", "")}env:\n  CI: true\n`);
+  });
+
+  it("should insert and append sequence items.", () => {
+    const data = load();
+    data.jobs.test.steps.unshift({ uses: "actions/checkout@v2" });
+    data.on.push.branches.push("next");
+    const result = patchYaml(content, data);
+    expect(result).toContain("branches: [ master, next ]");
+    expect(result).toContain("    steps:\n      - uses: actions/checkout@v2\n      - run: npm test\n");
+    expect(yaml.safeLoad(result)).toEqual(data);
+  });
+
+  it("should reorder keys with their comments.", () => {
+    const data = load();
+    const sorted = Object.keys(data)
+      .sort()
+      .reduce((result, key) => ({ ...result, [key]: data[key] }), {});
+    const result = patchYaml(content, sorted);
+    expect(result.startsWith("# Workflow\ndefaults: &defaults\n")).toBe(true);
+    expect(result).toContain("name: CI   # the name\n");
+    expect(Object.keys(yaml.safeLoad(result) as any)).toEqual(["defaults", "jobs", "name", "on"]);
+  });
+});
+
+describe("patchYamlDocuments()", () => {
+  const documents = "# first\na: 1 # one\n---\nb: 2\n--- # third\nc: 3\n";
+
+  it("should patch each document and keep separators.", () => {
+    const result = patchYamlDocuments(documents, [{ a: 1 }, { b: 5 }, { c: 3, d: 4 }]);
+    expect(result).toBe("# first\na: 1 # one\n---\nb: 5\n--- # third\nc: 3\nd: 4\n");
+  });
+
+  it("should add and remove documents.", () => {
+    expect(patchYamlDocuments(documents, [{ a: 1 }, { b: 2 }])).toBe("# first\na: 1 # one\n---\nb: 2\n");
+    expect(patchYamlDocuments(documents, [{ a: 1 }, { b: 2 }, { c: 3 }, { e: 5 }])).toBe(`${documents}---\ne: 5\n`);
+  });
+
+  it("should keep a leading document marker.", () => {
+    expect(patchYamlDocuments("---\na: 1\n---\nb: 2\n", [{ a: 2 }, { b: 2 }])).toBe("---\na: 2\n---\nb: 2\n");
+  });
+});